@@ -2,10 +2,17 @@
 import type {
   LanguageModelV1Prompt,
 } from "@ai-sdk/provider"
+import type {
+  SparkCompletionTemplate,
+  SparkCompletionTemplateFunction,
+  SparkCompletionTemplateMessage,
+  SparkCompletionTemplatePreset,
+} from "./spark-completion-template"
 import {
   InvalidPromptError,
   UnsupportedFunctionalityError,
 } from "@ai-sdk/provider"
+import { applySparkCompletionTemplate } from "./spark-completion-template"
 
 /**
  * Converts a LanguageModelV1Prompt into a Spark completion prompt.
@@ -13,8 +20,7 @@ import {
  * @param options - The configuration options
  * @param options.prompt - The input prompt in LanguageModelV1Prompt format
  * @param options.inputFormat - Either "prompt" (raw text input) or "messages" (chat messages)
- * @param options.user - Label for user messages (default: "user")
- * @param options.assistant - Label for assistant messages (default: "assistant")
+ * @param options.template - Transcript format of "messages" input (default: "plain")
  * @returns An object containing:
  *          - prompt: The constructed prompt string
  *          - stopSequences?: Array of strings to use as stop sequences
@@ -24,13 +30,11 @@ import {
 export function convertToSparkCompletionPrompt({
   prompt,
   inputFormat,
-  user = "user",
-  assistant = "assistant",
+  template,
 }: {
   prompt: LanguageModelV1Prompt
   inputFormat: "prompt" | "messages"
-  user?: string
-  assistant?: string
+  template?: SparkCompletionTemplatePreset | SparkCompletionTemplate | SparkCompletionTemplateFunction
 }): {
     prompt: string
     stopSequences?: string[]
@@ -47,12 +51,12 @@ export function convertToSparkCompletionPrompt({
     return { prompt: prompt[0].content[0].text }
   }
 
-  // Start assembling the text for a chat message format.
-  let text = ""
+  // Collect the text of each message; the template formats the transcript.
+  const messages: SparkCompletionTemplateMessage[] = []
 
-  // If the first message is a system message, add its content first.
+  // If the first message is a system message, keep it first.
   if (prompt[0].role === "system") {
-    text += `${prompt[0].content}\n\n`
+    messages.push({ role: "system", content: prompt[0].content })
     prompt = prompt.slice(1) // Remove the system message after processing.
   }
 
@@ -87,8 +91,7 @@ export function convertToSparkCompletionPrompt({
             }
           })
           .join("")
-        // Append user label and the message.
-        text += `${user}:\n${userMessage}\n\n`
+        messages.push({ role: "user", content: userMessage })
         break
       }
 
@@ -109,8 +112,7 @@ export function convertToSparkCompletionPrompt({
             }
           })
           .join("")
-        // Append assistant label and the message.
-        text += `${assistant}:\n${assistantMessage}\n\n`
+        messages.push({ role: "assistant", content: assistantMessage })
         break
       }
 
@@ -129,12 +131,6 @@ export function convertToSparkCompletionPrompt({
     }
   }
 
-  // Append the final assistant signal to the chat completion.
-  text += `${assistant}:\n`
-
-  // Return the constructed prompt along with a stop sequence to separate future user inputs.
-  return {
-    prompt: text,
-    stopSequences: [`\n${user}:`],
-  }
+  // Format the transcript, ending with the assistant turn and stop sequences that separate future user inputs.
+  return applySparkCompletionTemplate(messages, template)
 }
\ No newline at end of file
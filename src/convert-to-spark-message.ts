@@ -2,7 +2,10 @@ import type {
   LanguageModelV1Prompt,
   LanguageModelV1ProviderMetadata,
 } from "@ai-sdk/provider"
-import type { SparkChatPrompt } from "./spark-api-types"
+import type {
+  SparkChatPrompt,
+  SparkMessageToolCall,
+} from "./spark-api-types"
 import {
   UnsupportedFunctionalityError,
 } from "@ai-sdk/provider"
@@ -95,19 +98,7 @@ export function convertToSparkChatMessages(
       case "assistant": {
         // Build text response and accumulate function/tool calls.
         let text = ""
-        let toolCalls: {
-          type: 'function';
-          function: {
-            arguments: string;
-            name: string;
-          };
-        } = {
-          type: 'function',
-          function: {
-            arguments: '',
-            name: '',
-          },
-        }
+        const toolCalls: Array<SparkMessageToolCall> = []
 
         for (const part of content) {
           const partMetadata = getSparkMetadata(part)
@@ -119,14 +110,15 @@ export function convertToSparkChatMessages(
             }
             case "tool-call": {
               // Convert tool calls to function calls with serialized arguments.
-              toolCalls = {
+              toolCalls.push({
+                id: part.toolCallId,
                 type: "function",
                 function: {
                   name: part.toolName,
                   arguments: JSON.stringify(part.args),
                 },
                 ...partMetadata,
-              }
+              })
               break
             }
             default: {
@@ -140,7 +132,7 @@ export function convertToSparkChatMessages(
         messages.push({
           role: "assistant",
           content: text,
-          tool_calls: toolCalls ? toolCalls : undefined,
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
           ...metadata,
         })
 
@@ -3,3 +3,73 @@ export type {
   SparkProvider,
   SparkProviderSettings,
 } from './spark-provider';
+export type { SparkWebSocketConstructor } from './spark-websocket';
+export type { SparkSearchSource, SparkWebSearchOptions } from './spark-tools';
+export {
+  getSparkErrorInfo,
+  SparkAPICallError,
+  sparkErrorCatalog,
+} from './spark-error';
+export type {
+  SparkContentFilter,
+  SparkErrorCategory,
+  SparkErrorInfo,
+} from './spark-error';
+export type { SparkRetrySettings } from './spark-retry';
+export type {
+  SparkRateLimiterSettings,
+  SparkRateLimitSettings,
+} from './spark-rate-limiter';
+export {
+  composeMetadataExtractors,
+  sparkMetadataExtractor,
+} from './spark-metadata.extractor';
+export type { MetadataExtractor } from './spark-metadata.extractor';
+export type { SparkModelInfo } from './spark-model-catalog';
+export { defaultSparkSamplingRanges } from './spark-sampling';
+export type {
+  SparkOutOfRangeSettings,
+  SparkSamplingRange,
+  SparkSamplingRanges,
+} from './spark-sampling';
+export type {
+  SparkCredentials,
+  SparkCredentialsResolver,
+} from './spark-credentials';
+export type {
+  SparkKeyPoolSettings,
+  SparkKeySelectionStrategy,
+  SparkPoolKey,
+} from './spark-key-pool';
+export type {
+  SparkEmbeddingModelId,
+  SparkEmbeddingSettings,
+} from './spark-embedding-settings';
+export type {
+  SparkImageModelId,
+  SparkImageSettings,
+} from './spark-image-settings';
+export type { SparkImageResizer } from './spark-vision';
+export { defaultSparkFileTemplate } from './spark-files';
+export type {
+  SparkFileMode,
+  SparkFileSettings,
+  SparkFileTemplate,
+} from './spark-files';
+export { sparkCompletionTemplates } from './spark-completion-template';
+export type {
+  SparkCompletionTemplate,
+  SparkCompletionTemplateFunction,
+  SparkCompletionTemplateMessage,
+  SparkCompletionTemplatePreset,
+} from './spark-completion-template';
+export type {
+  SparkStructuredOutputReport,
+  SparkStructuredOutputSettings,
+} from './spark-structured-output';
+export type {
+  SparkContextManagementSettings,
+  SparkContextStrategy,
+  SparkContextSummarizer,
+} from './spark-context-management';
+export { countSparkTokens } from './spark-token-estimation';
@@ -16,6 +16,8 @@ export function mapSparkFinishReason(
       return "length"
     case "tool_calls":
       return "tool-calls"
+    case "content_filter":
+      return "content-filter"
     default:
       return "unknown"
   }
@@ -67,13 +67,14 @@ export interface SparkAssistantMessage
   extends JsonRecord<SparkMessageToolCall> {
   role: "assistant"
   content?: string | null
-  tool_calls?: SparkMessageToolCall
+  tool_calls?: Array<SparkMessageToolCall>
 }
 
 /**
  * Represents a tool call embedded within an assistant message.
  */
 export interface SparkMessageToolCall extends JsonRecord {
+  id: string
   type: "function"
   function: {
     arguments: string
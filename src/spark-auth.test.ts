@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { createSparkAuthUrl, createSparkChatDocSignature } from "./spark-auth"
+
+const date = new Date(Date.UTC(2024, 0, 2, 3, 4, 5))
+
+describe("createSparkAuthUrl", () => {
+  it("signs the host, date and GET request line", async () => {
+    const url = new URL(await createSparkAuthUrl({
+      url: "wss://spark-api.xf-yun.com/v3.5/chat",
+      apiKey: "key",
+      apiSecret: "secret",
+      date,
+    }))
+
+    expect(url.origin + url.pathname).toBe("wss://spark-api.xf-yun.com/v3.5/chat")
+    expect(url.searchParams.get("date")).toBe("Tue, 02 Jan 2024 03:04:05 GMT")
+    expect(url.searchParams.get("host")).toBe("spark-api.xf-yun.com")
+    expect(url.searchParams.get("authorization")).toBe(
+      "YXBpX2tleT0ia2V5IiwgYWxnb3JpdGhtPSJobWFjLXNoYTI1NiIsIGhlYWRlcnM9Imhvc3QgZGF0ZSByZXF1ZXN0LWxpbmUiLCBzaWduYXR1cmU9InNYWC9mNUpYOVMzNk5sTjBBTEtDTzU4QmVrUHhKUkw1cjZKTFZMZ3V6Vnc9Ig==",
+    )
+  })
+
+  it("signs the POST request line of signed HTTP endpoints", async () => {
+    const url = new URL(await createSparkAuthUrl({
+      url: "https://emb-cn-huabei-1.xf-yun.com/",
+      apiKey: "key",
+      apiSecret: "secret",
+      method: "POST",
+      date,
+    }))
+
+    expect(atob(url.searchParams.get("authorization")!)).toBe(
+      "api_key=\"key\", algorithm=\"hmac-sha256\", headers=\"host date request-line\", signature=\"HKBjbFIjejAwpcn669wmOtTwYMPMNYa7K+NzJNf9IpY=\"",
+    )
+  })
+})
+
+describe("createSparkChatDocSignature", () => {
+  it("signs the MD5 of the APPID and timestamp with HMAC-SHA1", async () => {
+    expect(await createSparkChatDocSignature({
+      appId: "app",
+      apiSecret: "secret",
+      timestamp: 1700000000,
+    })).toBe("C2IKAibSlEu0G2LomeqE09PDk/I=")
+  })
+})
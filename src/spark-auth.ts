@@ -0,0 +1,160 @@
+import { convertUint8ArrayToBase64 } from "@ai-sdk/provider-utils"
+
+/**
+ * The APPID/APIKey/APISecret triple of the signed Spark APIs
+ * (WebSocket chat, embeddings and image generation).
+ */
+export interface SparkAppCredentials {
+  appId: string
+  apiKey: string
+  apiSecret: string
+}
+
+/**
+ * Builds the signed authentication URL for a Spark WebSocket or signed HTTP endpoint.
+ *
+ * The signature is an HMAC-SHA256 over the `host`, `date` and request line,
+ * computed with the APISecret and sent together with the APIKey as query parameters.
+ *
+ * @param options.url - The unsigned `wss://` or `https://` endpoint URL.
+ * @param options.method - The HTTP method of the request line. Defaults to `GET`.
+ * @param options.apiKey - The APIKey from the Spark console.
+ * @param options.apiSecret - The APISecret from the Spark console.
+ * @param options.date - The request date (defaults to now).
+ * @returns The signed URL.
+ */
+export async function createSparkAuthUrl({
+  url,
+  apiKey,
+  apiSecret,
+  method = "GET",
+  date = new Date(),
+}: {
+  url: string
+  apiKey: string
+  apiSecret: string
+  method?: "GET" | "POST"
+  date?: Date
+}): Promise<string> {
+  const { host, pathname } = new URL(url)
+  const rfc1123Date = date.toUTCString()
+
+  const signatureOrigin = `host: ${host}\ndate: ${rfc1123Date}\n${method} ${pathname} HTTP/1.1`
+  const signature = await hmacBase64("SHA-256", apiSecret, signatureOrigin)
+
+  const authorizationOrigin = `api_key="${apiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`
+  const authorization = convertUint8ArrayToBase64(
+    new TextEncoder().encode(authorizationOrigin),
+  )
+
+  const signedUrl = new URL(url)
+  signedUrl.searchParams.set("authorization", authorization)
+  signedUrl.searchParams.set("date", rfc1123Date)
+  signedUrl.searchParams.set("host", host)
+  return signedUrl.toString()
+}
+
+/**
+ * Computes the signature of the document Q&A (ChatDoc) API:
+ * `base64(hmac-sha1(md5(appId + timestamp), apiSecret))`.
+ *
+ * @param options.appId - The Spark APPID.
+ * @param options.apiSecret - The APISecret from the Spark console.
+ * @param options.timestamp - Unix time in seconds.
+ * @returns The signature.
+ */
+export function createSparkChatDocSignature({
+  appId,
+  apiSecret,
+  timestamp,
+}: {
+  appId: string
+  apiSecret: string
+  timestamp: number
+}): Promise<string> {
+  return hmacBase64("SHA-1", apiSecret, md5Hex(`${appId}${timestamp}`))
+}
+
+async function hmacBase64(
+  hash: "SHA-1" | "SHA-256",
+  secret: string,
+  message: string,
+) {
+  const subtle = globalThis.crypto?.subtle
+  if (subtle == null) {
+    throw new Error(
+      "Web Crypto (globalThis.crypto.subtle) is required to sign Spark requests.",
+    )
+  }
+  const encoder = new TextEncoder()
+  const key = await subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash },
+    false,
+    ["sign"],
+  )
+  const signature = await subtle.sign("HMAC", key, encoder.encode(message))
+  return convertUint8ArrayToBase64(new Uint8Array(signature))
+}
+
+// Web Crypto has no MD5, which the ChatDoc signature needs.
+const md5Shifts = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+const md5Constants = Array.from(
+  { length: 64 },
+  (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0,
+)
+
+function md5Hex(message: string): string {
+  const bytes = new TextEncoder().encode(message)
+  const paddedLength = (((bytes.length + 8) >>> 6) + 1) << 6
+  const buffer = new Uint8Array(paddedLength)
+  buffer.set(bytes)
+  buffer[bytes.length] = 0x80
+  const view = new DataView(buffer.buffer)
+  view.setUint32(paddedLength - 8, (bytes.length * 8) >>> 0, true)
+  view.setUint32(paddedLength - 4, Math.floor(bytes.length / 0x20000000), true)
+
+  const state = [0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476]
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    let [a, b, c, d] = state
+    for (let i = 0; i < 64; i++) {
+      let f: number
+      let g: number
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      }
+      else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      }
+      else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      }
+      else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+      const sum = (a + f + md5Constants[i] + view.getUint32(offset + g * 4, true)) | 0
+      a = d
+      d = c
+      c = b
+      b = (b + ((sum << md5Shifts[i]) | (sum >>> (32 - md5Shifts[i])))) | 0
+    }
+    state[0] = (state[0] + a) | 0
+    state[1] = (state[1] + b) | 0
+    state[2] = (state[2] + c) | 0
+    state[3] = (state[3] + d) | 0
+  }
+
+  const digest = new DataView(new ArrayBuffer(16))
+  state.forEach((word, i) => digest.setUint32(i * 4, word, true))
+  return Array.from(new Uint8Array(digest.buffer), byte => byte.toString(16).padStart(2, "0")).join("")
+}
@@ -0,0 +1,161 @@
+import type { LanguageModelV1Prompt } from "@ai-sdk/provider"
+import type { SparkWebSocketLike } from "./spark-websocket"
+import { convertReadableStreamToArray } from "@ai-sdk/provider-utils/test"
+import { describe, expect, it } from "vitest"
+import { createSparkProvider } from "./spark-provider"
+
+const prompt: LanguageModelV1Prompt = [
+  { role: "user", content: [{ type: "text", text: "Hello" }] },
+]
+
+/**
+ * Answers every request with the given server-sent events.
+ */
+function createEventStreamFetch(chunks: unknown[]) {
+  const requests: Array<Record<string, unknown>> = []
+  const fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+    requests.push(JSON.parse(init!.body as string))
+    const body = [...chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"].join("")
+    return new Response(body, { headers: { "content-type": "text/event-stream" } })
+  }
+  return { fetch, requests }
+}
+
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null, extra: Record<string, unknown> = {}) {
+  return {
+    code: 0,
+    message: "Success",
+    sid: "sid-1",
+    id: "cha-1",
+    created: 1700000000,
+    choices: [{ delta, index: 0, finish_reason: finishReason }],
+    ...extra,
+  }
+}
+
+describe("doStream", () => {
+  it("maps text and reasoning deltas, usage and the finish reason", async () => {
+    const { fetch, requests } = createEventStreamFetch([
+      chunk({ role: "assistant", reasoning_content: "Thinking" }),
+      chunk({ content: "Hel" }),
+      chunk({ content: "lo" }, "stop", {
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+      }),
+    ])
+    const model = createSparkProvider({ apiKey: "key", fetch })("x1")
+
+    const { stream } = await model.doStream({ inputFormat: "prompt", mode: { type: "regular" }, prompt })
+    const parts = await convertReadableStreamToArray(stream)
+
+    expect(requests[0]).toMatchObject({ model: "x1", stream: true })
+    expect(parts.filter(part => part.type !== "finish")).toStrictEqual([
+      { type: "response-metadata", id: "cha-1", modelId: undefined, timestamp: new Date(1700000000 * 1000) },
+      { type: "reasoning", textDelta: "Thinking" },
+      { type: "text-delta", textDelta: "Hel" },
+      { type: "text-delta", textDelta: "lo" },
+    ])
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "stop",
+      usage: { promptTokens: 3, completionTokens: 2 },
+      providerMetadata: { spark: { sid: "sid-1", code: 0, totalTokens: 5 } },
+    })
+  })
+
+  it("assembles streamed tool calls", async () => {
+    const { fetch } = createEventStreamFetch([
+      chunk({ tool_calls: [{ index: 0, id: "call-1", type: "function", function: { name: "weather", arguments: "{\"city\":" } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: "\"Hefei\"}" } }] }, "tool_calls"),
+    ])
+    const model = createSparkProvider({ apiKey: "key", fetch })("4.0Ultra")
+
+    const { stream } = await model.doStream({
+      inputFormat: "prompt",
+      mode: {
+        type: "regular",
+        tools: [{ type: "function", name: "weather", parameters: { type: "object" } }],
+      },
+      prompt,
+    })
+    const parts = await convertReadableStreamToArray(stream)
+
+    expect(parts.filter(part => part.type === "tool-call")).toStrictEqual([
+      { type: "tool-call", toolCallType: "function", toolCallId: "call-1", toolName: "weather", args: "{\"city\":\"Hefei\"}" },
+    ])
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "tool-calls" })
+  })
+
+  it("keeps the content-filter finish reason when later chunks finish normally", async () => {
+    const { fetch } = createEventStreamFetch([
+      chunk({ content: "Partial" }),
+      { code: 10014, message: "Output rejected", sid: "sid-1" },
+      chunk({}, "stop"),
+    ])
+    const model = createSparkProvider({ apiKey: "key", fetch })("4.0Ultra")
+
+    const { stream } = await model.doStream({ inputFormat: "prompt", mode: { type: "regular" }, prompt })
+    const parts = await convertReadableStreamToArray(stream)
+
+    expect(parts.some(part => part.type === "error")).toBe(false)
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "content-filter",
+      providerMetadata: { spark: { contentFilter: { code: 10014, flagged: "output" } } },
+    })
+  })
+
+  it("streams over the WebSocket transport", async () => {
+    const frames = [
+      { header: { code: 0, sid: "sid-1", status: 0 }, payload: { choices: { status: 0, text: [{ content: "Hel" }] } } },
+      {
+        header: { code: 0, sid: "sid-1", status: 2 },
+        payload: {
+          choices: { status: 2, text: [{ content: "lo" }] },
+          usage: { text: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } },
+        },
+      },
+    ]
+    const sent: unknown[] = []
+
+    class FakeWebSocket implements SparkWebSocketLike {
+      onopen: SparkWebSocketLike["onopen"] = null
+      onmessage: SparkWebSocketLike["onmessage"] = null
+      onerror: SparkWebSocketLike["onerror"] = null
+      onclose: SparkWebSocketLike["onclose"] = null
+
+      constructor(readonly url: string) {
+        setTimeout(() => this.onopen?.({}))
+      }
+
+      send(data: string) {
+        sent.push(JSON.parse(data))
+        setTimeout(() => frames.forEach(frame => this.onmessage?.({ data: JSON.stringify(frame) })))
+      }
+
+      close() {}
+    }
+
+    const model = createSparkProvider({
+      transport: "websocket",
+      appId: "app",
+      appKey: "key",
+      appSecret: "secret",
+      webSocket: FakeWebSocket,
+    })("4.0Ultra")
+
+    const { stream, warnings } = await model.doStream({ inputFormat: "prompt", mode: { type: "regular" }, prompt, topP: 0.5 })
+    const parts = await convertReadableStreamToArray(stream)
+
+    expect(warnings).toContainEqual(expect.objectContaining({ type: "unsupported-setting", setting: "topP" }))
+    expect(sent).toMatchObject([{ header: { app_id: "app" }, payload: { message: { text: [{ role: "user", content: "Hello" }] } } }])
+    expect(parts.filter(part => part.type === "text-delta")).toStrictEqual([
+      { type: "text-delta", textDelta: "Hel" },
+      { type: "text-delta", textDelta: "lo" },
+    ])
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "stop",
+      usage: { promptTokens: 3, completionTokens: 2 },
+    })
+  })
+})
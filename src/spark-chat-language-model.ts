@@ -1,9 +1,14 @@
 import type {
   APICallError,
+  JSONSchema7,
+  JSONValue,
   LanguageModelV1,
   LanguageModelV1CallWarning,
   LanguageModelV1FinishReason,
+  LanguageModelV1FunctionTool,
   LanguageModelV1ObjectGenerationMode,
+  LanguageModelV1Prompt,
+  LanguageModelV1ProviderMetadata,
   LanguageModelV1StreamPart,
 } from "@ai-sdk/provider"
 import type {
@@ -16,29 +21,91 @@ import type {
   SparkChatSettings,
 } from "./spark-chat-settings"
 import type {
+  SparkContentFilter,
   SparkErrorStructure,
 } from "./spark-error"
+import type { SparkChatDocConfig } from "./spark-chatdoc"
+import type { SparkCredentials } from "./spark-credentials"
+import type { SparkChatDocDocument } from "./spark-files"
+import type { SparkKeyPool } from "./spark-key-pool"
 import type { MetadataExtractor } from "./spark-metadata.extractor"
-import {
-  InvalidResponseDataError,
-} from "@ai-sdk/provider"
+import type { SparkModelInfo } from "./spark-model-catalog"
+import type { SparkAcquireRateLimitSlot } from "./spark-rate-limiter"
+import type { SparkRequestConfig } from "./spark-request"
+import type { SparkRetrySettings } from "./spark-retry"
+import type { SparkStructuredOutputSettings } from "./spark-structured-output"
+import type { SparkEmulatedTools } from "./spark-tool-emulation"
+import type { SparkSearchSource } from "./spark-tools"
+import type {
+  SparkWebSocketChunk,
+  SparkWebSocketConfig,
+} from "./spark-websocket"
+import { UnsupportedFunctionalityError } from "@ai-sdk/provider"
 import {
   combineHeaders,
   createEventSourceResponseHandler,
-  createJsonErrorResponseHandler,
-  createJsonResponseHandler,
   generateId,
-  isParsableJson,
   postJsonToApi,
+  safeValidateTypes,
 } from "@ai-sdk/provider-utils"
 import { z } from "zod"
 import { convertToSparkChatMessages } from "./convert-to-spark-message"
 import { getResponseMetadata } from "./get-response-metadata"
 import { mapSparkFinishReason } from "./map-spark-finish-reason"
+import { createSparkAuthUrl } from "./spark-auth"
 import {
+  convertToSparkChatDocMessages,
+  mapSparkChatDocFrame,
+  openSparkChatDoc,
+  uploadSparkChatDocFile,
+  waitForSparkChatDocFiles,
+} from "./spark-chatdoc"
+import { fitSparkPromptToContext } from "./spark-context-management"
+import {
+  createSparkAPICallError,
+  createSparkFailedResponseHandler,
+  createSparkJsonResponseHandler,
   defaultSparkErrorStructure,
+  getSparkContentFilter,
+  getSparkErrorInfo,
 } from "./spark-error"
+import { prepareSparkFilePrompt } from "./spark-files"
+import { withSparkKeyPool } from "./spark-key-pool"
+import { mergeProviderMetadata } from "./spark-metadata.extractor"
 import { prepareTools } from "./spark-prepare-tools"
+import { releaseOnStreamEnd } from "./spark-rate-limiter"
+import { sendSparkRequest } from "./spark-request"
+import { normalizeSparkSampling } from "./spark-sampling"
+import {
+  createSparkJsonRepairMessage,
+  createSparkStructuredOutputTransform,
+  extractSparkJson,
+  getSparkStructuredOutputWarnings,
+  injectSparkJsonSchema,
+  validateSparkJsonReply,
+} from "./spark-structured-output"
+import {
+  estimateSparkMessageTokens,
+  estimateSparkToolTokens,
+} from "./spark-token-estimation"
+import { SparkToolCallAssembler } from "./spark-tool-call-assembler"
+import {
+  createSparkToolEmulationTransform,
+  extractSparkToolCalls,
+  injectSparkToolInstructions,
+  renderSparkToolHistory,
+} from "./spark-tool-emulation"
+import {
+  extractSparkSearchSources,
+  sparkPluginsContentSchema,
+} from "./spark-tools"
+import { prepareSparkVisionPrompt } from "./spark-vision"
+import {
+  convertToSparkWebSocketRequest,
+  getSparkWebSocketWarnings,
+  mapSparkWebSocketFrame,
+  postToSparkWebSocket,
+} from "./spark-websocket"
 
 /**
  * Configuration for the Spark Chat Language Model.
@@ -46,12 +113,50 @@ import { prepareTools } from "./spark-prepare-tools"
  */
 export interface SparkChatConfig {
   provider: string
-  headers: () => Record<string, string | undefined>
+  headers: (options: {
+    modelId: string
+    credentials?: SparkCredentials
+  }) => PromiseLike<Record<string, string | undefined>>
   url: (options: { modelId: string, path: string }) => string
   fetch?: FetchFunction
   errorStructure?: SparkErrorStructure<any>
   metadataExtractor?: MetadataExtractor
 
+  /**
+   * Catalog entry of the model, used to warn about unsupported features.
+   */
+  modelInfo?: SparkModelInfo
+
+  /**
+   * When set, requests are sent over Spark's signed WebSocket API instead of HTTP.
+   */
+  webSocket?: SparkWebSocketConfig
+
+  /**
+   * Spark's document Q&A API. Requests with documents are answered by it.
+   */
+  chatDoc?: SparkChatDocConfig
+
+  /**
+   * Retry and backoff policy for failed requests.
+   */
+  retry?: SparkRetrySettings
+
+  /**
+   * Waits for a slot of the provider's client-side rate limiter.
+   */
+  acquireRateLimitSlot?: SparkAcquireRateLimitSlot
+
+  /**
+   * Spreads requests over several credential sets with failover.
+   */
+  keyPool?: SparkKeyPool
+
+  /**
+   * Resolves the credentials of a request once, for the rate limiter and the request.
+   */
+  resolveCredentials?: SparkRequestConfig["resolveCredentials"]
+
   /**
   Default object generation mode that should be used with this model when
   no mode is specified. Should be the mode with the best results for this
@@ -60,14 +165,50 @@ export interface SparkChatConfig {
   defaultObjectGenerationMode?: LanguageModelV1ObjectGenerationMode
 
   /**
-   * Whether the model supports structured outputs.
+   * Whether the model supports structured outputs natively.
    */
   supportsStructuredOutputs?: boolean
 }
 
+/**
+ * Spark returns `tool_calls` either as a single object or as an array.
+ */
+function oneOrMany<T extends z.ZodTypeAny>(schema: T) {
+  return z.union([z.array(schema), schema])
+}
+
+/**
+ * Opens the response stream of a request sent over a WebSocket based API.
+ */
+interface SparkChunkTransport {
+  open: (credentials: SparkCredentials | undefined) => Promise<ReadableStream<ParseResult<SparkWebSocketChunk>>>
+  /**
+   * Request policies that replace the ones of the model.
+   */
+  requestConfig?: SparkRequestConfig
+  /**
+   * Alias of the pool key the request is bound to, if it was selected up front.
+   */
+  keyAlias?: string
+  /**
+   * IDs of the ChatDoc files the request is answered from.
+   */
+  chatDocFileIds?: string[]
+}
+
+/**
+ * Normalizes a `oneOrMany` value to an array.
+ */
+function asArray<T>(value: T | T[] | null | undefined): T[] {
+  return value == null ? [] : Array.isArray(value) ? value : [value]
+}
+
 // limited version of the schema, focussed on what is needed for the implementation
 // this approach limits breakages when the API changes and increases efficiency
 const SparkChatResponseSchema = z.object({
+  code: z.number().nullish(),
+  message: z.string().nullish(),
+  sid: z.string().nullish(),
   id: z.string().nullish(),
   created: z.number().nullish(),
   model: z.string().nullish(),
@@ -77,16 +218,18 @@ const SparkChatResponseSchema = z.object({
         role: z.literal("assistant").nullish(),
         content: z.string().nullish(),
         reasoning_content: z.string().nullish(),
-        tool_calls: z
-          .object({
+        plugins_content: sparkPluginsContentSchema,
+        tool_calls: oneOrMany(
+          z.object({
+            index: z.number().nullish(),
             id: z.string().nullish(),
             type: z.literal("function"),
             function: z.object({
               name: z.string(),
               arguments: z.string(),
             }),
-          })
-          .nullish(),
+          }),
+        ).nullish(),
       }),
       finish_reason: z.string().nullish(),
     }),
@@ -95,6 +238,8 @@ const SparkChatResponseSchema = z.object({
     .object({
       prompt_tokens: z.number().nullish(),
       completion_tokens: z.number().nullish(),
+      total_tokens: z.number().nullish(),
+      question_tokens: z.number().nullish(),
     })
     .nullish(),
 })
@@ -103,26 +248,6 @@ const SparkChatResponseSchema = z.object({
  * Class representing the Spark Chat language model.
  * Implements LanguageModelV1 providing text generation and streaming.
  */
-/**
- * A language model implementation for Spark Chat API that follows the LanguageModelV1 interface.
- * Handles both regular text generation and structured outputs through various modes.
- *
- * @param options.mode - The generation mode configuration that determines how the model generates responses:
- *                      'regular' for standard chat completion,
- *                      'object-json' for JSON-structured outputs,
- *                      'object-tool' for function-calling outputs
- * @param options.prompt - The input prompt messages to send to the model
- * @param options.maxTokens - Maximum number of tokens to generate in the response
- * @param options.temperature - Controls randomness in the model's output (0-2)
- * @param options.topP - Nucleus sampling parameter that controls diversity (0-1)
- * @param options.topK - Not supported by Spark - will generate a warning if used
- * @param options.frequencyPenalty - Penalizes frequent tokens (-2 to 2)
- * @param options.presencePenalty - Penalizes repeated tokens (-2 to 2)
- * @param options.providerMetadata - Additional provider-specific metadata to include in the request
- * @param options.stopSequences - Array of sequences where the model should stop generating
- * @param options.responseFormat - Specifies the desired format of the response (e.g. JSON)
- * @param options.seed - Random seed for deterministic generation
- */
 export class SparkChatLanguageModel implements LanguageModelV1 {
   readonly specificationVersion = "v1"
 
@@ -156,9 +281,11 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
     this.chunkSchema = createSparkChatChunkSchema(
       errorStructure.errorSchema,
     )
-    this.failedResponseHandler = createJsonErrorResponseHandler(errorStructure)
+    this.failedResponseHandler = createSparkFailedResponseHandler(errorStructure)
 
-    this.supportsStructuredOutputs = config.supportsStructuredOutputs ?? false
+    // Without native support, JSON schemas are enforced through the prompt when opted in.
+    this.supportsStructuredOutputs = this.nativeStructuredOutputs
+      || this.structuredOutputEmulation != null
   }
 
   /**
@@ -175,6 +302,78 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
     return this.config.provider
   }
 
+  /**
+   * Whether `response_format: { type: "json_schema" }` is sent to the API.
+   */
+  private get nativeStructuredOutputs(): boolean {
+    return this.config.supportsStructuredOutputs ?? false
+  }
+
+  /**
+   * The settings of the structured output emulation, or undefined when it is
+   * not enabled or JSON schemas are supported natively.
+   */
+  private get structuredOutputEmulation(): SparkStructuredOutputSettings | undefined {
+    const emulation = this.settings.structuredOutputEmulation
+    if (this.nativeStructuredOutputs || emulation == null || emulation === false) {
+      return undefined
+    }
+    return emulation === true ? {} : emulation
+  }
+
+  /**
+   * Returns the JSON schema of a call when it is enforced through the prompt.
+   * @param options - Generation options.
+   * @returns The schema, or undefined when there is none or it is supported natively.
+   */
+  private getEmulatedJsonSchema({
+    mode,
+    responseFormat,
+  }: Pick<Parameters<LanguageModelV1["doGenerate"]>[0], "mode" | "responseFormat">): JSONSchema7 | undefined {
+    if (this.structuredOutputEmulation == null) {
+      return undefined
+    }
+    if (mode.type === "object-json") {
+      return mode.schema
+    }
+    if (mode.type === "regular" && responseFormat?.type === "json") {
+      return responseFormat.schema
+    }
+    return undefined
+  }
+
+  /**
+   * Whether tool calling is emulated through the prompt. Defaults to emulation
+   * for catalog models without function calling.
+   */
+  private get emulatesToolCalls(): boolean {
+    const modelInfo = this.config.modelInfo
+    return this.settings.toolCallEmulation ?? (modelInfo != null && !modelInfo.supportsTools)
+  }
+
+  /**
+   * Returns the function tools of a call when tool calling is emulated through the prompt.
+   * @param options - Generation options.
+   * @returns The tools and tool choice, or undefined when there are none or tool calling is native.
+   */
+  private getEmulatedTools({
+    mode,
+  }: Pick<Parameters<LanguageModelV1["doGenerate"]>[0], "mode">): SparkEmulatedTools | undefined {
+    if (!this.emulatesToolCalls) {
+      return undefined
+    }
+    if (mode.type === "object-tool") {
+      return { tools: [mode.tool], toolChoice: { type: "tool", toolName: mode.tool.name } }
+    }
+    if (mode.type === "regular" && mode.toolChoice?.type !== "none") {
+      const tools = (mode.tools ?? []).filter(
+        (tool): tool is LanguageModelV1FunctionTool => tool.type === "function",
+      )
+      return tools.length > 0 ? { tools, toolChoice: mode.toolChoice } : undefined
+    }
+    return undefined
+  }
+
   /**
    * Internal getter that extracts the provider options name.
    * @private
@@ -195,13 +394,15 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
    * @param options.maxTokens - The maximum number of tokens to generate.
    * @param options.temperature - The temperature setting to control randomness in generation.
    * @param options.topP - The nucleus sampling parameter (top-p) for token selection.
-   * @param options.topK - The top-k sampling parameter; if provided, it triggers a warning as it is unsupported.
-   * @param options.frequencyPenalty - The penalty applied to frequently occurring tokens.
+   * @param options.topK - The top-k sampling parameter, sent as `top_k`.
+   * @param options.frequencyPenalty - Ignored by Spark; triggers a warning.
    * @param options.presencePenalty - The penalty applied based on the presence of tokens.
    * @param options.providerMetadata - Additional metadata customized for the specific provider.
    * @param options.stopSequences - An array of sequences that will signal the generation to stop.
    * @param options.responseFormat - The desired response format; supports JSON schema formatting when structured outputs are enabled.
-   * @param options.seed - An optional seed value for randomization.
+   * @param options.seed - Ignored by Spark; triggers a warning.
+   *
+   * Sampling settings outside of the model's ranges are clamped or rejected, see `outOfRangeSettings`.
    *
    * @returns An object containing:
    * - args: The arguments constructed for the language model generation request.
@@ -226,11 +427,68 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
 
     const warnings: LanguageModelV1CallWarning[] = []
 
-    // Warn if unsupported settings are used:
-    if (topK != null) {
+    const emulatedJsonSchema = this.getEmulatedJsonSchema({ mode, responseFormat })
+    if (emulatedJsonSchema != null) {
+      prompt = injectSparkJsonSchema(prompt, emulatedJsonSchema)
+      warnings.push({
+        type: "other",
+        message: "The JSON schema is enforced through the system prompt because the model does not support structured outputs.",
+      })
+    }
+
+    // Earlier tool calls and results are sent as text when tool calling is emulated.
+    if (this.emulatesToolCalls) {
+      prompt = renderSparkToolHistory(prompt)
+    }
+    const emulatedTools = this.getEmulatedTools({ mode })
+    if (emulatedTools != null) {
+      prompt = injectSparkToolInstructions(prompt, emulatedTools)
+      warnings.push({
+        type: "other",
+        message: "Tool calls are emulated through the system prompt because the model does not support function calling.",
+      })
+    }
+
+    const modelInfo = this.config.modelInfo
+
+    const sampling = normalizeSparkSampling({
+      settings: { maxTokens, temperature, topP, topK, frequencyPenalty, seed },
+      modelId: this.modelId,
+      modelInfo,
+      outOfRange: this.settings.outOfRangeSettings,
+    })
+    warnings.push(...sampling.warnings)
+    if (modelInfo?.deprecated != null) {
+      warnings.push({
+        type: "other",
+        message: [
+          `Model '${this.modelId}' is deprecated, use '${modelInfo.deprecated.replacement}' instead.`,
+          modelInfo.deprecated.message,
+        ].filter(Boolean).join(" "),
+      })
+    }
+
+    if (
+      modelInfo != null
+      && !modelInfo.supportsJsonMode
+      && (responseFormat?.type === "json" || type === "object-json")
+    ) {
       warnings.push({
         type: "unsupported-setting",
-        setting: "topK",
+        setting: "responseFormat",
+        details: `${modelInfo.name} does not support JSON mode`,
+      })
+    }
+
+    if (
+      modelInfo != null
+      && !modelInfo.supportsTools
+      && type === "object-tool"
+      && emulatedTools == null
+    ) {
+      warnings.push({
+        type: "other",
+        message: `${modelInfo.name} does not support function calling`,
       })
     }
 
@@ -238,6 +496,7 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
       responseFormat?.type === "json"
       && responseFormat.schema != null
       && !this.supportsStructuredOutputs
+      && emulatedJsonSchema == null
     ) {
       warnings.push({
         type: "unsupported-setting",
@@ -255,14 +514,14 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
       user: this.settings.user,
 
       // standardized settings:
-      max_tokens: maxTokens,
-      temperature,
-      top_p: topP,
-      frequency_penalty: frequencyPenalty,
+      max_tokens: sampling.maxTokens,
+      temperature: sampling.temperature,
+      top_p: sampling.topP,
+      top_k: sampling.topK,
       presence_penalty: presencePenalty,
       response_format:
           responseFormat?.type === "json"
-            ? this.supportsStructuredOutputs === true
+            ? this.nativeStructuredOutputs
             && responseFormat.schema != null
               ? {
                   type: "json_schema",
@@ -276,7 +535,6 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
             : undefined,
 
       stop: stopSequences,
-      seed,
       ...providerMetadata?.[this.providerOptionsName],
 
       // messages:
@@ -286,9 +544,12 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
     // Handling various generation modes.
     switch (type) {
       case "regular": {
+        // Emulated function tools are described in the prompt; built-in tools are still sent.
         const { tools, tool_choice, toolWarnings } = prepareTools({
-          mode,
-          structuredOutputs: this.supportsStructuredOutputs,
+          mode: emulatedTools != null
+            ? { ...mode, tools: mode.tools?.filter(tool => tool.type !== "function"), toolChoice: undefined }
+            : mode,
+          modelInfo,
         })
 
         return {
@@ -302,7 +563,7 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
           args: {
             ...baseArgs,
             response_format:
-                this.supportsStructuredOutputs === true && mode.schema != null
+                this.nativeStructuredOutputs && mode.schema != null
                   ? {
                       type: "json_schema",
                       json_schema: {
@@ -318,6 +579,9 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
       }
 
       case "object-tool": {
+        if (emulatedTools != null) {
+          return { args: baseArgs, warnings }
+        }
         return {
           args: {
             ...baseArgs,
@@ -347,56 +611,296 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
     }
   }
 
+  /**
+   * Prepares the prompt for the model and builds the request arguments.
+   * Image understanding models get their single image moved first and inlined as base64.
+   * File parts are inlined as text or collected as documents for ChatDoc.
+   * With context management, the prompt is shortened to the context window.
+   * @param options - Generation options.
+   * @returns The request arguments, all warnings and the ChatDoc documents.
+   */
+  private async prepareCall(
+    options: Parameters<LanguageModelV1["doGenerate"]>[0],
+  ) {
+    const promptWarnings: LanguageModelV1CallWarning[] = []
+    let prompt = options.prompt
+
+    const vision = this.config.modelInfo?.vision
+    if (vision != null) {
+      const prepared = await prepareSparkVisionPrompt({
+        prompt,
+        maxImageBytes: vision.maxImageBytes,
+        resizeImage: this.settings.resizeImage,
+        fetch: this.config.fetch,
+        abortSignal: options.abortSignal,
+      })
+      prompt = prepared.prompt
+      promptWarnings.push(...prepared.warnings)
+    }
+
+    const files = await prepareSparkFilePrompt({
+      prompt,
+      settings: this.settings.files,
+      fetch: this.config.fetch,
+      abortSignal: options.abortSignal,
+    })
+    prompt = files.prompt
+
+    const context = await this.fitContextWindow(prompt, options)
+    prompt = context.prompt
+    promptWarnings.push(...context.warnings)
+
+    const { args, warnings } = this.getArgs({ ...options, prompt })
+    if (files.documents.length > 0 && "tools" in args && args.tools != null) {
+      promptWarnings.push({
+        type: "other",
+        message: "Requests with documents are answered by Spark document Q&A, which does not support tools.",
+      })
+    }
+    if (this.config.webSocket != null && files.documents.length === 0) {
+      promptWarnings.push(...getSparkWebSocketWarnings({
+        ...args,
+        // A JSON schema that is enforced through the prompt does not need the response format.
+        response_format: this.getEmulatedJsonSchema(options) == null ? args.response_format : undefined,
+      }))
+    }
+    return { args, warnings: [...promptWarnings, ...warnings], documents: files.documents }
+  }
+
+  /**
+   * Shortens the prompt to the context window of the model, minus the tokens
+   * reserved for the answer, the tool definitions and the instructions that are
+   * added to the system prompt afterwards, when context management is enabled.
+   * @param prompt - The prompt.
+   * @param options - Generation options.
+   * @returns The prompt and the truncation warnings.
+   */
+  private async fitContextWindow(
+    prompt: LanguageModelV1Prompt,
+    { mode, responseFormat, maxTokens, abortSignal }: Parameters<LanguageModelV1["doGenerate"]>[0],
+  ): Promise<{ prompt: LanguageModelV1Prompt, warnings: LanguageModelV1CallWarning[] }> {
+    const settings = this.settings.contextManagement
+    if (settings == null) {
+      return { prompt, warnings: [] }
+    }
+
+    const modelInfo = this.config.modelInfo
+    const contextWindow = settings.contextWindow ?? modelInfo?.contextWindow
+    if (contextWindow == null) {
+      return {
+        prompt,
+        warnings: [{
+          type: "other",
+          message: `The context window of '${this.modelId}' is unknown. Set contextManagement.contextWindow to manage it.`,
+        }],
+      }
+    }
+
+    const reservedOutputTokens = maxTokens
+      ?? settings.reservedOutputTokens
+      ?? Math.min(modelInfo?.maxOutputTokens ?? 4096, 4096)
+    // Emulated tools are described in the system prompt instead of the tool definitions.
+    const tools = this.emulatesToolCalls
+      ? undefined
+      : mode.type === "regular"
+        ? mode.tools
+        : mode.type === "object-tool" ? [mode.tool] : undefined
+
+    // getArgs adds the JSON schema and tool instructions to the first system message of the
+    // fitted prompt, which is always kept; they cost what that message grows by.
+    const system = prompt[0]?.role === "system" ? [prompt[0]] : []
+    let instructed: LanguageModelV1Prompt = system
+    const jsonSchema = this.getEmulatedJsonSchema({ mode, responseFormat })
+    if (jsonSchema != null) {
+      instructed = injectSparkJsonSchema(instructed, jsonSchema)
+    }
+    const emulatedTools = this.getEmulatedTools({ mode })
+    if (emulatedTools != null) {
+      instructed = injectSparkToolInstructions(instructed, emulatedTools)
+    }
+    const estimateSystemTokens = (messages: LanguageModelV1Prompt) => messages.reduce((sum, message) => message.role === "system"
+      ? sum + estimateSparkMessageTokens({ role: "system", content: message.content })
+      : sum, 0)
+    const instructionTokens = estimateSystemTokens(instructed) - estimateSystemTokens(system)
+
+    return fitSparkPromptToContext({
+      prompt,
+      maxPromptTokens: contextWindow - reservedOutputTokens - estimateSparkToolTokens(tools) - instructionTokens,
+      strategy: settings.strategy,
+      modelName: modelInfo?.name ?? this.modelId,
+      abortSignal,
+    })
+  }
+
   /**
    * Generates a text response from the model.
+   * Replies rejected by moderation are returned as they are.
+   * Emulated tool calls are parsed out of the reply.
+   * JSON schemas that are enforced through the prompt are validated and optionally repaired.
    * @param options - Generation options.
    * @returns A promise resolving with the generation result.
    */
   async doGenerate(
     options: Parameters<LanguageModelV1["doGenerate"]>[0],
   ): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
-    const { args, warnings } = this.getArgs({ ...options })
+    let result = await this.generate(options)
+    if (result.finishReason === "content-filter") {
+      return result
+    }
 
-    const body = JSON.stringify(args)
-    // Send request for generation using POST JSON.
-    const {
-      responseHeaders,
-      value: responseBody,
-    } = await postJsonToApi({
-      url: this.config.url({
-        path: "/chat/completions",
-        modelId: this.modelId,
-      }),
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: args,
-      failedResponseHandler: this.failedResponseHandler,
-      successfulResponseHandler: createJsonResponseHandler(
-        SparkChatResponseSchema,
-      ),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
-    })
+    const emulatedTools = this.getEmulatedTools(options)
+    if (emulatedTools != null) {
+      const { text, toolCalls } = extractSparkToolCalls(result.text ?? "", getToolNames(emulatedTools))
+      result = {
+        ...result,
+        text,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        finishReason: toolCalls.length > 0 && (result.finishReason === "stop" || result.finishReason === "unknown")
+          ? "tool-calls"
+          : result.finishReason,
+      }
+    }
+
+    const schema = this.getEmulatedJsonSchema(options)
+    return schema != null ? this.enforceJsonSchema(result, schema, options) : result
+  }
+
+  /**
+   * Extracts the JSON value from a reply and validates it against the schema.
+   * Invalid replies are sent back with the validation errors up to `repairAttempts` times.
+   * @param result - The generation result.
+   * @param schema - The JSON schema enforced through the prompt.
+   * @param options - Generation options.
+   * @returns The result with the extracted JSON text, the outcome in warnings and `providerMetadata.spark.structuredOutput`.
+   */
+  private async enforceJsonSchema(
+    result: Awaited<ReturnType<LanguageModelV1["doGenerate"]>>,
+    schema: JSONSchema7,
+    options: Parameters<LanguageModelV1["doGenerate"]>[0],
+  ): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
+    const { repairAttempts: maxRepairAttempts = 0 } = this.structuredOutputEmulation ?? {}
+
+    let current = result
+    let usage = result.usage
+    let extracted = extractSparkJson(current.text ?? "")
+    let stripped = extracted.stripped
+    let errors = validateSparkJsonReply(extracted.text, schema)
+    let repairAttempts = 0
+
+    while (errors.length > 0 && repairAttempts < maxRepairAttempts) {
+      repairAttempts++
+      current = await this.generate({
+        ...options,
+        prompt: [
+          ...options.prompt,
+          { role: "assistant", content: [{ type: "text", text: current.text ?? "" }] },
+          { role: "user", content: [{ type: "text", text: createSparkJsonRepairMessage(errors) }] },
+        ],
+      })
+      usage = {
+        promptTokens: usage.promptTokens + current.usage.promptTokens,
+        completionTokens: usage.completionTokens + current.usage.completionTokens,
+      }
+      extracted = extractSparkJson(current.text ?? "")
+      stripped ||= extracted.stripped
+      errors = validateSparkJsonReply(extracted.text, schema)
+    }
 
+    const report = { stripped, valid: errors.length === 0, errors, repairAttempts }
+    const providerMetadata = withSparkMetadata(current.providerMetadata, { structuredOutput: report })
+    return {
+      ...current,
+      text: extracted.text,
+      usage,
+      ...(providerMetadata && { providerMetadata }),
+      warnings: [...result.warnings ?? [], ...getSparkStructuredOutputWarnings(report)],
+    }
+  }
+
+  /**
+   * Sends a generation request and maps the response.
+   * @param options - Generation options.
+   * @returns A promise resolving with the generation result.
+   */
+  private async generate(
+    options: Parameters<LanguageModelV1["doGenerate"]>[0],
+  ): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
+    const { args, warnings, documents } = await this.prepareCall(options)
+    const transport = await this.getChunkTransport(args, documents, options.abortSignal)
+
+    const body = JSON.stringify(args)
     const { messages: rawPrompt, ...rawSettings } = args
+
+    // Send request for generation using POST JSON, or over the WebSocket transport.
+    const response = await sendSparkRequest(
+      async credentials => transport != null
+        ? this.generateOverWebSocket(await transport.open(credentials))
+        : postJsonToApi({
+          url: this.config.url({
+            path: "/chat/completions",
+            modelId: this.modelId,
+          }),
+          headers: combineHeaders(
+            await this.config.headers({ modelId: this.modelId, credentials }),
+            options.headers,
+          ),
+          body: args,
+          failedResponseHandler: this.failedResponseHandler,
+          successfulResponseHandler: createSparkJsonResponseHandler(
+            SparkChatResponseSchema,
+          ),
+          abortSignal: options.abortSignal,
+          fetch: this.config.fetch,
+        }),
+      { modelId: this.modelId, config: transport?.requestConfig ?? this.config, abortSignal: options.abortSignal },
+    ).catch(catchSparkContentFilter)
+
+    // Prompts rejected by moderation finish without an answer.
+    if ("contentFilter" in response) {
+      return {
+        text: undefined,
+        finishReason: "content-filter",
+        usage: { promptTokens: Number.NaN, completionTokens: Number.NaN },
+        providerMetadata: withSparkMetadata(undefined, { contentFilter: response.contentFilter }),
+        rawCall: { rawPrompt, rawSettings },
+        warnings,
+        request: { body },
+      }
+    }
+
+    const { responseHeaders, value: responseBody, queueWaitMs, keyAlias } = response
     const choice = responseBody.choices[0]
-    const providerMetadata = this.config.metadataExtractor?.extractMetadata?.({
-      parsedBody: responseBody,
-    })
+    // Replies cut off by moderation keep the text received before the rejection.
+    const contentFilter = getSparkContentFilter(responseBody, Boolean(choice.message.content))
+    const sources = extractSparkSearchSources(choice.message.plugins_content)
+    // Metadata from a custom extractor takes precedence.
+    const providerMetadata = mergeProviderMetadata([
+      withSparkMetadata(undefined, {
+        sources: sources.length > 0 ? sources : undefined,
+        queueWaitMs,
+        keyAlias: keyAlias ?? transport?.keyAlias,
+        chatDocFileIds: transport?.chatDocFileIds,
+        contentFilter,
+      }),
+      this.config.metadataExtractor?.extractMetadata?.({
+        parsedBody: responseBody,
+      }),
+    ])
 
     // Return structured generation details.
     return {
       text: choice.message.content ?? undefined,
-      toolCalls: choice.message.tool_calls ? [{
-        toolCallType: "function",
-        toolCallId: choice.message.tool_calls.id ?? generateId(),
-        toolName: choice.message.tool_calls.function.name,
-        args: choice.message.tool_calls.function.arguments!,
-      }] : undefined,
-      finishReason: mapSparkFinishReason(choice.finish_reason),
-      usage: {
-        promptTokens: responseBody.usage?.prompt_tokens ?? Number.NaN,
-        completionTokens: responseBody.usage?.completion_tokens ?? Number.NaN,
-      },
+      reasoning: choice.message.reasoning_content ?? undefined,
+      toolCalls: asArray(choice.message.tool_calls).length > 0
+        ? asArray(choice.message.tool_calls).map(toolCall => ({
+          toolCallType: "function",
+          toolCallId: toolCall.id ?? generateId(),
+          toolName: toolCall.function.name,
+          args: toolCall.function.arguments,
+        }))
+        : undefined,
+      finishReason: contentFilter != null ? "content-filter" : mapSparkFinishReason(choice.finish_reason),
+      usage: getSparkUsage(responseBody.usage),
       ...(providerMetadata && { providerMetadata }),
       rawCall: { rawPrompt, rawSettings },
       rawResponse: { headers: responseHeaders },
@@ -421,6 +925,12 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
         start(controller) {
           // Send metadata then text deltas.
           controller.enqueue({ type: "response-metadata", ...result.response })
+          if (result.reasoning) {
+            controller.enqueue({
+              type: "reasoning",
+              textDelta: result.reasoning,
+            })
+          }
           if (result.text) {
             controller.enqueue({
               type: "text-delta",
@@ -453,56 +963,94 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
       }
     }
 
-    const { args, warnings } = this.getArgs({ ...options })
+    const { args, warnings, documents } = await this.prepareCall(options)
+    const transport = await this.getChunkTransport(args, documents, options.abortSignal)
 
-    // Set stream flag to true for the API.
-    const body = JSON.stringify({ ...args, stream: true })
+    // Set stream flag to true for the API, optionally asking for usage in the final chunk.
+    const streamArgs = {
+      ...args,
+      stream: true,
+      stream_options: this.settings.includeUsage ? { include_usage: true } : undefined,
+    }
+    const body = JSON.stringify(streamArgs)
 
     const metadataExtractor
         = this.config.metadataExtractor?.createStreamExtractor()
 
-    const { responseHeaders, value: response } = await postJsonToApi({
-      url: this.config.url({
-        path: "/chat/completions",
-        modelId: this.modelId,
-      }),
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: {
-        ...args,
-        stream: true,
-      },
-      failedResponseHandler: this.failedResponseHandler,
-      successfulResponseHandler: createEventSourceResponseHandler(
-        this.chunkSchema,
-      ),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
+    const url = this.config.url({
+      path: "/chat/completions",
+      modelId: this.modelId,
     })
 
     const { messages: rawPrompt, ...rawSettings } = args
 
-    const toolCalls: Array<{
-      id: string
-      type: "function"
-      function: {
-        name: string
-        arguments: string
+    // Retries only cover establishing the stream, before the first byte is consumed.
+    const sent = await sendSparkRequest(
+      async credentials => transport != null
+        ? this.streamOverWebSocket(await transport.open(credentials))
+        : postJsonToApi({
+          url,
+          headers: combineHeaders(
+            await this.config.headers({ modelId: this.modelId, credentials }),
+            options.headers,
+          ),
+          body: streamArgs,
+          failedResponseHandler: this.failedResponseHandler,
+          successfulResponseHandler: createEventSourceResponseHandler(
+            this.chunkSchema,
+          ),
+          abortSignal: options.abortSignal,
+          fetch: this.config.fetch,
+        }),
+      {
+        modelId: this.modelId,
+        config: transport?.requestConfig ?? this.config,
+        abortSignal: options.abortSignal,
+        // Streams keep their rate limit slot until they are closed.
+        holdSlot: releaseOnStreamEnd,
+      },
+    ).catch(catchSparkContentFilter)
+
+    // Prompts rejected by moderation finish without an answer.
+    if ("contentFilter" in sent) {
+      const providerMetadata = withSparkMetadata(undefined, { contentFilter: sent.contentFilter })
+      return {
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            controller.enqueue({
+              type: "finish",
+              finishReason: "content-filter",
+              usage: { promptTokens: Number.NaN, completionTokens: Number.NaN },
+              ...(providerMetadata && { providerMetadata }),
+            })
+            controller.close()
+          },
+        }),
+        rawCall: { rawPrompt, rawSettings },
+        warnings,
+        request: { body },
       }
-      hasFinished: boolean
-    }> = []
+    }
+
+    const { responseHeaders, value: response, queueWaitMs, keyAlias, sentAt } = sent
+    const jsonSchema = this.getEmulatedJsonSchema(options)
+    const emulatedTools = this.getEmulatedTools(options)
+
+    const toolCallAssembler = new SparkToolCallAssembler()
 
     let finishReason: LanguageModelV1FinishReason = "unknown"
-    let usage: {
-      promptTokens: number | undefined
-      completionTokens: number | undefined
-    } = {
-      promptTokens: undefined,
-      completionTokens: undefined,
+    let usage: { promptTokens: number, completionTokens: number } = {
+      promptTokens: Number.NaN,
+      completionTokens: Number.NaN,
     }
     let isFirstChunk = true
+    let hasOutput = false
+    let contentFilter: SparkContentFilter | undefined
+    let timeToFirstTokenMs: number | undefined
+    const sources: SparkSearchSource[] = []
 
     return {
-      stream: response.pipeThrough(
+      stream: withJsonSchemaEnforcement(withToolCallEmulation(response.pipeThrough(
         new TransformStream<
           ParseResult<z.infer<typeof this.chunkSchema>>,
           LanguageModelV1StreamPart
@@ -511,7 +1059,7 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
           transform(chunk, controller) {
             // If validation fails, emit an error.
             if (!chunk.success) {
-              finishReason = "error"
+              finishReason = keepFinalFinishReason(finishReason, "error")
               controller.enqueue({ type: "error", error: chunk.error })
               return
             }
@@ -519,10 +1067,21 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
 
             metadataExtractor?.processChunk(chunk.value)
 
-            // If API sends an error field in the value.
-            if ("error" in value) {
-              finishReason = "error"
-              controller.enqueue({ type: "error", error: value.error.message })
+            // If the API sends an error inside the chunk.
+            const sparkError = createSparkAPICallError({
+              data: value,
+              url,
+              requestBodyValues: streamArgs,
+            })
+            if (sparkError != null || !("choices" in value)) {
+              // A reply cut off by moderation keeps the text emitted so far.
+              contentFilter = getSparkContentFilter(value, hasOutput)
+              if (contentFilter != null) {
+                finishReason = keepFinalFinishReason(finishReason, "content-filter")
+                return
+              }
+              finishReason = keepFinalFinishReason(finishReason, "error")
+              controller.enqueue({ type: "error", error: sparkError ?? value })
               return
             }
 
@@ -535,134 +1094,487 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
               })
             }
 
+            // Spark reports usage in the final chunk.
             if (value.usage != null) {
-              usage = {
-                promptTokens: value.usage.prompt_tokens ?? undefined,
-                completionTokens: value.usage.completion_tokens ?? undefined,
-              }
+              usage = getSparkUsage(value.usage)
             }
 
             const choice = value.choices[0]
 
-
-            if (choice?.delta == null) {
-              return
+            if (choice?.finish_reason != null) {
+              finishReason = keepFinalFinishReason(finishReason, mapSparkFinishReason(choice.finish_reason))
             }
 
-            const delta = choice.delta
+            const delta = choice?.delta
 
-            if (delta.content != null) {
-              controller.enqueue({
-                type: "text-delta",
-                textDelta: delta.content,
-              })
-            }
-
-            // Process and merge tool call deltas.
-
-            if (delta.tool_calls != null) {
-              if (delta.tool_calls.type !== "function") {
-                throw new InvalidResponseDataError({
-                  data: delta.tool_calls,
-                  message: `Expected 'function' type.`,
-                })
-              }
-              if (delta.tool_calls.function?.name == null) {
-                throw new InvalidResponseDataError({
-                  data: delta.tool_calls,
-                  message: `Expected 'function.name' to be a string.`,
-                })
-              }
-              toolCalls[0] = {
-                id: delta.tool_calls.id ?? generateId(),
-                type: "function",
-                function: {
-                  name: delta.tool_calls.function.name,
-                  arguments: delta.tool_calls.function.arguments ?? "",
-                },
-                hasFinished: false,
-              }
-
-              const toolCall = toolCalls[0]
+            if (delta != null) {
+              sources.push(...extractSparkSearchSources(delta.plugins_content))
 
               if (
-                toolCall.function?.name != null
-                && toolCall.function?.arguments != null
+                timeToFirstTokenMs == null
+                && (delta.content || delta.reasoning_content || delta.tool_calls != null)
               ) {
-                if (toolCall.function.arguments.length > 0) {
-                  controller.enqueue({
-                    type: "tool-call-delta",
-                    toolCallType: "function",
-                    toolCallId: toolCall.id,
-                    toolName: toolCall.function.name,
-                    argsTextDelta: toolCall.function.arguments,
-                  })
-                }
-
-                // If the accumulated arguments are valid JSON, finish the tool call.
-                if (isParsableJson(toolCall.function.arguments)) {
-                  controller.enqueue({
-                    type: "tool-call",
-                    toolCallType: "function",
-                    toolCallId: toolCall.id ?? generateId(),
-                    toolName: toolCall.function.name,
-                    args: toolCall.function.arguments,
-                  })
-                  toolCall.hasFinished = true
-                }
+                timeToFirstTokenMs = Date.now() - sentAt
               }
 
-              if (delta.tool_calls.function?.arguments != null) {
-                toolCall.function!.arguments
-                    += delta.tool_calls.function?.arguments ?? ""
+              // Reasoning (X1 deep-reasoning models) is streamed separately from the answer text.
+              if (delta.reasoning_content != null) {
+                controller.enqueue({
+                  type: "reasoning",
+                  textDelta: delta.reasoning_content,
+                })
               }
 
-              controller.enqueue({
-                type: "tool-call-delta",
-                toolCallType: "function",
-                toolCallId: toolCall.id,
-                toolName: toolCall.function.name,
-                argsTextDelta: delta.tool_calls.function?.arguments ?? "",
-              })
-
-              if (
-                toolCall.function?.name != null
-                && toolCall.function?.arguments != null
-                && isParsableJson(toolCall.function.arguments)
-              ) {
+              if (delta.content != null) {
+                hasOutput = true
                 controller.enqueue({
-                  type: "tool-call",
-                  toolCallType: "function",
-                  toolCallId: toolCall.id ?? generateId(),
-                  toolName: toolCall.function.name,
-                  args: toolCall.function.arguments,
+                  type: "text-delta",
+                  textDelta: delta.content,
                 })
-                toolCall.hasFinished = true
+              }
+
+              for (const part of toolCallAssembler.processDeltas(asArray(delta.tool_calls))) {
+                controller.enqueue(part)
+              }
+            }
+
+            // A finish reason completes the pending tool calls.
+            if (choice?.finish_reason != null) {
+              for (const part of toolCallAssembler.finish()) {
+                controller.enqueue(part)
               }
             }
           },
 
           flush(controller) {
-            // Build final metadata and finish streaming.
-            const metadata = metadataExtractor?.buildMetadata()
+            // Complete tool calls that are still pending when the stream ends.
+            for (const part of toolCallAssembler.finish()) {
+              controller.enqueue(part)
+            }
+            if (
+              toolCallAssembler.hasToolCalls
+              && (finishReason === "unknown" || finishReason === "stop")
+            ) {
+              finishReason = "tool-calls"
+            }
+
+            // Build final metadata and finish streaming. Metadata from a custom extractor takes precedence.
+            const metadata = mergeProviderMetadata([
+              withSparkMetadata(undefined, {
+                sources: sources.length > 0 ? sources : undefined,
+                timeToFirstTokenMs,
+                queueWaitMs,
+                keyAlias: keyAlias ?? transport?.keyAlias,
+                chatDocFileIds: transport?.chatDocFileIds,
+                contentFilter,
+              }),
+              metadataExtractor?.buildMetadata(),
+            ])
             controller.enqueue({
               type: "finish",
               finishReason,
-              usage: {
-                promptTokens: usage.promptTokens ?? Number.NaN,
-                completionTokens: usage.completionTokens ?? Number.NaN,
-              },
+              usage,
               ...(metadata && { providerMetadata: metadata }),
             })
           },
         }),
-      ),
+      ), emulatedTools), jsonSchema),
       rawCall: { rawPrompt, rawSettings },
       rawResponse: { headers: responseHeaders },
       warnings,
       request: { body },
     }
   }
+
+  /**
+   * Returns the WebSocket based transport of a request, or undefined when it is sent over HTTP.
+   * Requests with documents are answered by ChatDoc: the documents are uploaded and
+   * processed before the request is sent, so the upload neither holds a rate limit
+   * slot nor is retried as part of the request.
+   * @param args - The chat arguments produced by getArgs.
+   * @param documents - The documents for ChatDoc.
+   * @param abortSignal - Optional signal to cancel the request.
+   * @returns The transport.
+   */
+  private async getChunkTransport(
+    args: ReturnType<SparkChatLanguageModel["getArgs"]>["args"],
+    documents: SparkChatDocDocument[],
+    abortSignal: AbortSignal | undefined,
+  ): Promise<SparkChunkTransport | undefined> {
+    if (documents.length > 0) {
+      const chatDoc = this.config.chatDoc
+      if (chatDoc == null) {
+        throw new UnsupportedFunctionalityError({
+          functionality: "File content parts in user messages",
+        })
+      }
+
+      // The files belong to the APPID they were uploaded with. With a key pool, a key whose
+      // upload is rejected fails over to the next one, and uploads are shared by keys of one APPID.
+      const uploads = new Map<string, Promise<string[]>>()
+      const { response: upload, keyAlias } = await withSparkKeyPool(
+        async (key) => {
+          const credentials = this.config.resolveCredentials != null
+            ? await this.config.resolveCredentials(this.modelId, key)
+            : key
+          const appCredentials = await chatDoc.credentials({ modelId: this.modelId, credentials })
+          let fileIds = uploads.get(appCredentials.appId)
+          if (fileIds == null) {
+            fileIds = this.uploadDocuments(documents, chatDoc, appCredentials, abortSignal)
+            uploads.set(appCredentials.appId, fileIds)
+            fileIds.catch(() => uploads.delete(appCredentials.appId))
+          }
+          return { credentials, appCredentials, fileIds: await fileIds }
+        },
+        { keyPool: this.config.keyPool, modelId: this.modelId, abortSignal },
+      )
+
+      return {
+        // The request is bound to the key that holds the files.
+        requestConfig: {
+          retry: this.config.retry,
+          acquireRateLimitSlot: chatDoc.acquireRateLimitSlot,
+          resolveCredentials: async () => upload.credentials,
+        },
+        keyAlias,
+        chatDocFileIds: upload.fileIds,
+        open: async () => {
+          const frames = await openSparkChatDoc({
+            baseURL: chatDoc.baseURL,
+            credentials: upload.appCredentials,
+            fileIds: upload.fileIds,
+            messages: convertToSparkChatDocMessages(args.messages),
+            temperature: args.temperature,
+            webSocket: chatDoc.webSocket,
+            abortSignal,
+          })
+          return frames.pipeThrough(mapParseResults(mapSparkChatDocFrame))
+        },
+      }
+    }
+
+    const webSocket = this.config.webSocket
+    return webSocket != null
+      ? { open: credentials => this.openWebSocket(args, webSocket, abortSignal, credentials) }
+      : undefined
+  }
+
+  /**
+   * Uploads the documents of a request to ChatDoc and waits until they are processed.
+   * @returns The file IDs of all documents.
+   */
+  private async uploadDocuments(
+    documents: SparkChatDocDocument[],
+    chatDoc: SparkChatDocConfig,
+    credentials: Awaited<ReturnType<SparkChatDocConfig["credentials"]>>,
+    abortSignal: AbortSignal | undefined,
+  ): Promise<string[]> {
+    const fileIds = await Promise.all(documents.map(document =>
+      "fileId" in document
+        ? document.fileId
+        : uploadSparkChatDocFile({
+          baseURL: chatDoc.baseURL,
+          credentials,
+          file: document,
+          fetch: chatDoc.fetch,
+          abortSignal,
+        }),
+    ))
+
+    await waitForSparkChatDocFiles({
+      baseURL: chatDoc.baseURL,
+      credentials,
+      fileIds,
+      pollIntervalMs: this.settings.files?.chatDoc?.pollIntervalMs ?? 1000,
+      timeoutMs: this.settings.files?.chatDoc?.timeoutMs ?? 120_000,
+      fetch: chatDoc.fetch,
+      abortSignal,
+    })
+    return fileIds
+  }
+
+  /**
+   * Opens a signed WebSocket connection and sends the request frame.
+   * @param args - The chat arguments produced by getArgs.
+   * @param webSocket - The WebSocket transport configuration.
+   * @param abortSignal - Optional signal to cancel the request.
+   * @param credentials - Credentials of the selected pool key, if any.
+   * @returns The stream of response frames, mapped to chat completion chunks.
+   */
+  private async openWebSocket(
+    args: ReturnType<SparkChatLanguageModel["getArgs"]>["args"],
+    webSocket: SparkWebSocketConfig,
+    abortSignal: AbortSignal | undefined,
+    credentials: SparkCredentials | undefined,
+  ) {
+    const { appId, apiKey, apiSecret } = await webSocket.credentials({
+      modelId: this.modelId,
+      credentials,
+    })
+    const url = await createSparkAuthUrl({
+      url: webSocket.url({ modelId: this.modelId }),
+      apiKey,
+      apiSecret,
+    })
+
+    const frames = await postToSparkWebSocket({
+      url,
+      body: convertToSparkWebSocketRequest({
+        appId,
+        domain: webSocket.domain({ modelId: this.modelId }),
+        args,
+      }),
+      abortSignal,
+      webSocket: webSocket.webSocket,
+    })
+    return keepSparkContentFilterFrames(frames.pipeThrough(mapParseResults(mapSparkWebSocketFrame)))
+  }
+
+  /**
+   * Streams over a WebSocket based transport, validating the chat completion chunks.
+   */
+  private async streamOverWebSocket(
+    chunks: ReadableStream<ParseResult<SparkWebSocketChunk>>,
+  ): Promise<{
+      responseHeaders?: Record<string, string>
+      value: ReadableStream<ParseResult<z.infer<SparkChatLanguageModel["chunkSchema"]>>>
+    }> {
+    const chunkSchema = this.chunkSchema
+
+    return {
+      value: chunks.pipeThrough(
+        new TransformStream<
+          ParseResult<SparkWebSocketChunk>,
+          ParseResult<z.infer<typeof chunkSchema>>
+        >({
+          transform(chunk, controller) {
+            if (!chunk.success) {
+              controller.enqueue(chunk)
+              return
+            }
+            const value = chunk.value
+            const result = safeValidateTypes({ value, schema: chunkSchema })
+            controller.enqueue(result.success ? { ...result, rawValue: value } : result)
+          },
+        }),
+      ),
+    }
+  }
+
+  /**
+   * Collects a complete response over a WebSocket based transport.
+   */
+  private async generateOverWebSocket(
+    chunks: ReadableStream<ParseResult<SparkWebSocketChunk>>,
+  ): Promise<{
+      responseHeaders?: Record<string, string>
+      value: z.infer<typeof SparkChatResponseSchema>
+    }> {
+    const reader = chunks.getReader()
+
+    let header: Pick<SparkWebSocketChunk, "code" | "message" | "sid"> | undefined
+    let content = ""
+    let reasoningContent = ""
+    const pluginsContent: NonNullable<z.infer<typeof sparkPluginsContentSchema>> = []
+    const toolCalls: Array<{ type: "function", function: { name: string, arguments: string } }> = []
+    let finishReason: string | null = null
+    let usage: SparkWebSocketChunk["usage"]
+
+    while (true) {
+      const { done, value: result } = await reader.read()
+      if (done) {
+        break
+      }
+      if (!result.success) {
+        throw result.error
+      }
+
+      const chunk = result.value
+      const choice = chunk.choices[0]
+      header = { code: chunk.code, message: chunk.message, sid: chunk.sid }
+      content += choice.delta.content ?? ""
+      reasoningContent += choice.delta.reasoning_content ?? ""
+      pluginsContent.push(...(choice.delta.plugins_content ?? []))
+      toolCalls.push(...asArray(choice.delta.tool_calls))
+      // A moderation stop is final; later frames do not overwrite it.
+      if (finishReason !== "content_filter") {
+        finishReason = choice.finish_reason ?? finishReason
+      }
+      usage = chunk.usage ?? usage
+    }
+
+    return {
+      value: SparkChatResponseSchema.parse({
+        ...header,
+        id: header?.sid,
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content,
+              reasoning_content: reasoningContent || undefined,
+              plugins_content: pluginsContent,
+              tool_calls: toolCalls,
+            },
+            finish_reason: finishReason,
+          },
+        ],
+        usage,
+      }),
+    }
+  }
+}
+
+/**
+ * Content filter and error outcomes are final; later chunks do not overwrite them.
+ */
+function keepFinalFinishReason(
+  current: LanguageModelV1FinishReason,
+  next: LanguageModelV1FinishReason,
+): LanguageModelV1FinishReason {
+  return current === "content-filter" || current === "error" ? current : next
+}
+
+/**
+ * Adds the extraction and validation of a JSON schema that is enforced through the prompt.
+ */
+function withJsonSchemaEnforcement(
+  stream: ReadableStream<LanguageModelV1StreamPart>,
+  schema: JSONSchema7 | undefined,
+): ReadableStream<LanguageModelV1StreamPart> {
+  return schema != null
+    ? stream.pipeThrough(createSparkStructuredOutputTransform(schema))
+    : stream
+}
+
+/**
+ * Adds the parsing of tool calls that are emulated through the prompt.
+ */
+function withToolCallEmulation(
+  stream: ReadableStream<LanguageModelV1StreamPart>,
+  tools: SparkEmulatedTools | undefined,
+): ReadableStream<LanguageModelV1StreamPart> {
+  return tools != null
+    ? stream.pipeThrough(createSparkToolEmulationTransform(getToolNames(tools)))
+    : stream
+}
+
+function getToolNames({ tools }: SparkEmulatedTools) {
+  return new Set(tools.map(tool => tool.name))
+}
+
+/**
+ * Maps Spark token usage. Counts that are missing are derived from `total_tokens`.
+ */
+function getSparkUsage(
+  usage: z.infer<typeof SparkChatResponseSchema>["usage"],
+): { promptTokens: number, completionTokens: number } {
+  const total = usage?.total_tokens ?? Number.NaN
+  const promptTokens = usage?.prompt_tokens ?? total - (usage?.completion_tokens ?? Number.NaN)
+  const completionTokens = usage?.completion_tokens ?? total - promptTokens
+  return { promptTokens, completionTokens }
+}
+
+/**
+ * Turns a moderation rejection of the request into a value. Other errors are rethrown.
+ */
+function catchSparkContentFilter(error: unknown): { contentFilter: SparkContentFilter } {
+  const contentFilter = getSparkContentFilter(error)
+  if (contentFilter == null) {
+    throw error
+  }
+  return { contentFilter }
+}
+
+/**
+ * WebSocket error frames after the first one error the stream. Moderation
+ * rejections are turned into a final chunk carrying the Spark error instead,
+ * so the reply received so far is kept.
+ */
+function keepSparkContentFilterFrames(
+  chunks: ReadableStream<ParseResult<SparkWebSocketChunk>>,
+): ReadableStream<ParseResult<SparkWebSocketChunk>> {
+  const reader = chunks.getReader()
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          controller.close()
+          return
+        }
+        controller.enqueue(value)
+      }
+      catch (error) {
+        const contentFilter = getSparkContentFilter(error)
+        if (contentFilter == null) {
+          throw error
+        }
+        const { message, sid } = getSparkErrorInfo(error)!
+        const chunk: SparkWebSocketChunk = {
+          code: contentFilter.code,
+          message,
+          sid,
+          id: sid,
+          choices: [
+            {
+              delta: {
+                role: "assistant",
+                content: undefined,
+                reasoning_content: undefined,
+                plugins_content: undefined,
+                tool_calls: undefined,
+              },
+              finish_reason: "content_filter",
+            },
+          ],
+          usage: undefined,
+        }
+        controller.enqueue({ success: true, value: chunk, rawValue: chunk })
+        controller.close()
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+}
+
+/**
+ * Maps the values of successful parse results.
+ */
+function mapParseResults<T, R>(map: (value: T) => R) {
+  return new TransformStream<ParseResult<T>, ParseResult<R>>({
+    transform(result, controller) {
+      if (!result.success) {
+        controller.enqueue(result)
+        return
+      }
+      const value = map(result.value)
+      controller.enqueue({ success: true, value, rawValue: value })
+    },
+  })
+}
+
+/**
+ * Adds values to the `spark` provider metadata. Undefined values are skipped.
+ *
+ * @param metadata - The metadata produced by the metadata extractor, if any.
+ * @param values - The values to add.
+ * @returns The merged metadata, or the original metadata when there is nothing to add.
+ */
+function withSparkMetadata(
+  metadata: LanguageModelV1ProviderMetadata | undefined,
+  values: Record<string, JSONValue | undefined>,
+): LanguageModelV1ProviderMetadata | undefined {
+  const entries = Object.entries(values).filter(([, value]) => value !== undefined)
+  if (entries.length === 0) {
+    return metadata
+  }
+  return {
+    ...metadata,
+    spark: { ...metadata?.spark, ...Object.fromEntries(entries) as Record<string, JSONValue> },
+  }
 }
 
 // limited version of the schema, focussed on what is needed for the implementation
@@ -670,6 +1582,9 @@ export class SparkChatLanguageModel implements LanguageModelV1 {
 function createSparkChatChunkSchema<ERROR_SCHEMA extends z.ZodType>(errorSchema: ERROR_SCHEMA) {
   return z.union([
     z.object({
+      code: z.number().nullish(),
+      message: z.string().nullish(),
+      sid: z.string().nullish(),
       id: z.string().nullish(),
       created: z.number().nullish(),
       model: z.string().nullish(),
@@ -680,8 +1595,10 @@ function createSparkChatChunkSchema<ERROR_SCHEMA extends z.ZodType>(errorSchema:
               role: z.enum(["assistant"]).nullish(),
               content: z.string().nullish(),
               reasoning_content: z.string().nullish(),
-              tool_calls: z
-                .object({
+              plugins_content: sparkPluginsContentSchema,
+              tool_calls: oneOrMany(
+                z.object({
+                  index: z.number().nullish(),
                   id: z.string().nullish(),
                   type: z.literal("function").optional(),
                   function: z.object({
@@ -689,6 +1606,7 @@ function createSparkChatChunkSchema<ERROR_SCHEMA extends z.ZodType>(errorSchema:
                     arguments: z.string().nullish(),
                   }),
                 }),
+              ).nullish(),
             })
             .nullish(),
           finish_reason: z.string().nullish(),
@@ -698,6 +1616,8 @@ function createSparkChatChunkSchema<ERROR_SCHEMA extends z.ZodType>(errorSchema:
         .object({
           prompt_tokens: z.number().nullish(),
           completion_tokens: z.number().nullish(),
+          total_tokens: z.number().nullish(),
+          question_tokens: z.number().nullish(),
         })
         .nullish(),
     }),
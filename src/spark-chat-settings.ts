@@ -1,4 +1,9 @@
 import { OpenAICompatibleChatSettings } from '@ai-sdk/openai-compatible';
+import { SparkContextManagementSettings } from './spark-context-management';
+import { SparkFileSettings } from './spark-files';
+import { SparkOutOfRangeSettings } from './spark-sampling';
+import { SparkStructuredOutputSettings } from './spark-structured-output';
+import { SparkImageResizer } from './spark-vision';
 
 // https://xinghuo.xfyun.cn/spark
 export type SparkChatModelId =
@@ -8,6 +13,59 @@ export type SparkChatModelId =
   | 'generalv3.5'
   | 'max-32k'
   | '4.0Ultra'
+  | 'x1'
+  | 'image'
+  | 'imagev3'
   | (string & {});
 
-export interface SparkChatSettings extends OpenAICompatibleChatSettings {}
+export interface SparkChatSettings extends OpenAICompatibleChatSettings {
+  /**
+Downscales images that exceed the size limit of image understanding models.
+Without it, oversized images are rejected.
+*/
+  resizeImage?: SparkImageResizer;
+
+  /**
+How file content parts are sent: inlined as text, or answered by Spark's
+document Q&A (ChatDoc). Defaults to inlining small text files.
+*/
+  files?: SparkFileSettings;
+
+  /**
+Enforces JSON schemas through the system prompt for models without native
+structured outputs: the reply is stripped of markdown fences and prose,
+validated against the schema and optionally repaired. Disabled by default,
+in which case a bare JSON mode request is sent. Set to `true` or to the
+emulation settings to enable it.
+*/
+  structuredOutputEmulation?: SparkStructuredOutputSettings | boolean;
+
+  /**
+Emulates tool calling through the system prompt: tools are described in the
+prompt, `<tool_call>` blocks are parsed out of the reply and earlier tool calls
+and results are sent as text. Defaults to `true` for catalog models without
+function calling.
+*/
+  toolCallEmulation?: boolean;
+
+  /**
+Requests token usage in the final chunk of HTTP streams
+(`stream_options: { include_usage: true }`).
+*/
+  includeUsage?: boolean;
+
+  /**
+What happens to `temperature`, `topP`, `topK` and `maxTokens` outside of the
+model's range: `clamp` them with a warning, or `reject` the call.
+Defaults to `clamp`.
+*/
+  outOfRangeSettings?: SparkOutOfRangeSettings;
+
+  /**
+Fits long conversations into the context window of the model, minus the tokens
+reserved for the answer. Tokens are estimated with a heuristic for mixed
+Chinese and English text; older turns are removed or summarized and every
+truncation is reported in the warnings. Disabled by default.
+*/
+  contextManagement?: SparkContextManagementSettings;
+}
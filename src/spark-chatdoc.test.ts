@@ -0,0 +1,143 @@
+import type { LanguageModelV1Prompt } from "@ai-sdk/provider"
+import type { SparkWebSocketLike } from "./spark-websocket"
+import { APICallError } from "@ai-sdk/provider"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createSparkProvider } from "./spark-provider"
+
+const prompt: LanguageModelV1Prompt = [
+  { role: "system", content: "Answer briefly." },
+  {
+    role: "user",
+    content: [
+      { type: "text", text: "Summarize the report." },
+      {
+        type: "file",
+        data: "JVBERi0xLjQ=",
+        mimeType: "application/pdf",
+        providerMetadata: { spark: { filename: "report.pdf" } },
+      },
+    ],
+  },
+]
+
+/**
+ * Answers ChatDoc uploads with a file ID and status requests with the given statuses, in order.
+ */
+function createChatDocFetch(statuses: string[]) {
+  const requests: Array<{ url: string, headers: Headers }> = []
+  const fetch = async (url: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({ url: url.toString(), headers: new Headers(init?.headers) })
+    const data = url.toString().endsWith("/v1/file/upload")
+      ? { fileId: "file-1" }
+      : [{ fileId: "file-1", fileStatus: statuses.shift() }]
+    return new Response(JSON.stringify({ code: 0, sid: "sid-1", data }), {
+      headers: { "content-type": "application/json" },
+    })
+  }
+  return { fetch, requests }
+}
+
+function createFakeWebSocket(frames: unknown[]) {
+  const connections: Array<{ url: string, sent: unknown[] }> = []
+
+  class FakeWebSocket implements SparkWebSocketLike {
+    onopen: SparkWebSocketLike["onopen"] = null
+    onmessage: SparkWebSocketLike["onmessage"] = null
+    onerror: SparkWebSocketLike["onerror"] = null
+    onclose: SparkWebSocketLike["onclose"] = null
+    private readonly sent: unknown[] = []
+
+    constructor(url: string) {
+      connections.push({ url, sent: this.sent })
+      setTimeout(() => this.onopen?.({}))
+    }
+
+    send(data: string) {
+      this.sent.push(JSON.parse(data))
+      setTimeout(() => frames.forEach(frame => this.onmessage?.({ data: JSON.stringify(frame) })))
+    }
+
+    close() {}
+  }
+
+  return { FakeWebSocket, connections }
+}
+
+describe("chatDoc", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("uploads the documents, waits for processing and answers from them", async () => {
+    const { fetch, requests } = createChatDocFetch(["uploaded", "vectored"])
+    const { FakeWebSocket, connections } = createFakeWebSocket([
+      { code: 0, content: "A short", sid: "sid-2", status: 1 },
+      { code: 0, content: " summary.", sid: "sid-2", status: 2 },
+    ])
+
+    // Without an APIPassword: ChatDoc is signed and rate limited by APPID.
+    const model = createSparkProvider({
+      appId: "app",
+      appKey: "key",
+      appSecret: "secret",
+      rateLimit: { qps: 1 },
+      fetch,
+      webSocket: FakeWebSocket,
+    })("4.0Ultra", { files: { chatDoc: { pollIntervalMs: 1 } } })
+
+    const { text, finishReason, providerMetadata } = await model.doGenerate({
+      inputFormat: "messages",
+      mode: { type: "regular" },
+      prompt,
+    })
+
+    expect(requests.map(request => request.url)).toStrictEqual([
+      "https://chatdoc.xfyun.cn/openapi/v1/file/upload",
+      "https://chatdoc.xfyun.cn/openapi/v1/file/status",
+      "https://chatdoc.xfyun.cn/openapi/v1/file/status",
+    ])
+    expect(connections).toHaveLength(1)
+    expect(connections[0].url).toMatch(/^wss:\/\/chatdoc\.xfyun\.cn\/openapi\/chat\?appId=app&/)
+    expect(connections[0].sent).toStrictEqual([
+      { fileIds: ["file-1"], messages: [{ role: "user", content: "Answer briefly.\n\nSummarize the report." }] },
+    ])
+    expect(text).toBe("A short summary.")
+    expect(finishReason).toBe("stop")
+    expect(providerMetadata?.spark).toMatchObject({ chatDocFileIds: ["file-1"] })
+  })
+
+  it("signs requests with the MD5 of APPID and timestamp, HMAC-SHA1 signed with the APISecret", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(1700000000000)
+    const { fetch, requests } = createChatDocFetch(["vectored"])
+    const { FakeWebSocket, connections } = createFakeWebSocket([{ code: 0, content: "Done.", sid: "sid-2", status: 2 }])
+
+    const model = createSparkProvider({ appId: "app", appKey: "key", appSecret: "secret", fetch, webSocket: FakeWebSocket })("4.0Ultra")
+    await model.doGenerate({ inputFormat: "messages", mode: { type: "regular" }, prompt })
+
+    for (const { headers } of requests) {
+      expect(Object.fromEntries(["appid", "timestamp", "signature"].map(name => [name, headers.get(name)]))).toStrictEqual({
+        appid: "app",
+        timestamp: "1700000000",
+        signature: "C2IKAibSlEu0G2LomeqE09PDk/I=",
+      })
+    }
+    expect(Object.fromEntries(new URL(connections[0].url).searchParams)).toStrictEqual({
+      appId: "app",
+      timestamp: "1700000000",
+      signature: "C2IKAibSlEu0G2LomeqE09PDk/I=",
+    })
+  })
+
+  it("fails without retrying or connecting when ChatDoc cannot process a document", async () => {
+    const { fetch, requests } = createChatDocFetch(["failed"])
+    const { FakeWebSocket, connections } = createFakeWebSocket([])
+
+    const model = createSparkProvider({ appId: "app", appKey: "key", appSecret: "secret", fetch, webSocket: FakeWebSocket })("4.0Ultra")
+    const error: unknown = await Promise.resolve(model.doGenerate({ inputFormat: "messages", mode: { type: "regular" }, prompt })).catch(error => error)
+
+    expect(APICallError.isInstance(error)).toBe(true)
+    expect(error).toMatchObject({ message: "ChatDoc could not process file file-1.", isRetryable: false })
+    expect(requests.map(request => request.url.split("/").at(-1))).toStrictEqual(["upload", "status"])
+    expect(connections).toHaveLength(0)
+  })
+})
@@ -0,0 +1,375 @@
+import type { FetchFunction, ParseResult } from "@ai-sdk/provider-utils"
+import type { SparkChatPrompt } from "./spark-api-types"
+import type { SparkAppCredentials } from "./spark-auth"
+import type { SparkCredentials } from "./spark-credentials"
+import type { SparkAcquireRateLimitSlot } from "./spark-rate-limiter"
+import type {
+  SparkWebSocketChunk,
+  SparkWebSocketConstructor,
+} from "./spark-websocket"
+import { APICallError } from "@ai-sdk/provider"
+import {
+  createJsonResponseHandler,
+  postToApi,
+} from "@ai-sdk/provider-utils"
+import { z } from "zod"
+import { createSparkChatDocSignature } from "./spark-auth"
+import {
+  createSparkAPICallError,
+  sparkFailedResponseHandler,
+} from "./spark-error"
+import { sleep } from "./spark-retry"
+import { openSparkWebSocket } from "./spark-websocket"
+
+/**
+ * Configuration for Spark's document Q&A (ChatDoc) API.
+ */
+export interface SparkChatDocConfig {
+  /**
+   * Base URL of the API, e.g. `https://chatdoc.xfyun.cn/openapi`.
+   * The chat endpoint is derived from it with the `wss://` scheme.
+   */
+  baseURL: string
+  /**
+   * Resolves the APPID and APISecret used to sign requests.
+   */
+  credentials: (options: {
+    modelId: string
+    credentials?: SparkCredentials
+  }) => PromiseLike<SparkAppCredentials>
+  fetch?: FetchFunction
+  /**
+   * WebSocket implementation. Defaults to `globalThis.WebSocket`.
+   */
+  webSocket?: SparkWebSocketConstructor
+  /**
+   * Waits for a slot of the provider's client-side rate limiter, scoped by APPID.
+   */
+  acquireRateLimitSlot?: SparkAcquireRateLimitSlot
+}
+
+/**
+ * A document to upload to ChatDoc.
+ */
+export interface SparkChatDocFile {
+  data: Uint8Array | URL
+  mimeType: string
+  filename: string
+}
+
+// limited version of the schema, focussed on what is needed for the implementation
+// this approach limits breakages when the API changes and increases efficiency
+const sparkChatDocResponseSchema = <T extends z.ZodTypeAny>(data: T) => z.object({
+  code: z.number(),
+  desc: z.string().nullish(),
+  sid: z.string().nullish(),
+  data: data.nullish(),
+})
+
+const sparkChatDocUploadResponseSchema = sparkChatDocResponseSchema(
+  z.object({ fileId: z.string() }),
+)
+
+const sparkChatDocStatusResponseSchema = sparkChatDocResponseSchema(
+  z.array(z.object({ fileId: z.string(), fileStatus: z.string() })),
+)
+
+const sparkChatDocFrameSchema = z.object({
+  code: z.number(),
+  content: z.string().nullish(),
+  sid: z.string().nullish(),
+  status: z.number().nullish(),
+})
+
+export type SparkChatDocFrame = z.infer<typeof sparkChatDocFrameSchema>
+
+async function createSignedHeaders({ appId, apiSecret }: SparkAppCredentials) {
+  const timestamp = Math.floor(Date.now() / 1000)
+  return {
+    appId,
+    timestamp: String(timestamp),
+    signature: await createSparkChatDocSignature({ appId, apiSecret, timestamp }),
+  }
+}
+
+/**
+ * Posts a form to the ChatDoc API. ChatDoc reports failures with a non-zero
+ * `code` and HTTP status 200.
+ */
+async function postFormToSparkChatDoc<T extends { code: number, desc?: string | null, sid?: string | null }>({
+  url,
+  credentials,
+  formData,
+  values,
+  schema,
+  fetch,
+  abortSignal,
+}: {
+  url: string
+  credentials: SparkAppCredentials
+  formData: FormData
+  values: Record<string, unknown>
+  schema: z.ZodType<T, z.ZodTypeDef, any>
+  fetch?: FetchFunction
+  abortSignal?: AbortSignal
+}): Promise<T> {
+  const { value, responseHeaders } = await postToApi({
+    url,
+    headers: await createSignedHeaders(credentials),
+    body: { content: formData, values },
+    failedResponseHandler: sparkFailedResponseHandler,
+    successfulResponseHandler: createJsonResponseHandler(schema),
+    abortSignal,
+    fetch,
+  })
+
+  const sparkError = createSparkAPICallError({
+    data: { code: value.code, message: value.desc ?? `ChatDoc error ${value.code}`, sid: value.sid },
+    url,
+    requestBodyValues: values,
+    responseHeaders,
+  })
+  if (sparkError != null) {
+    throw sparkError
+  }
+  return value
+}
+
+/**
+ * Uploads a document to ChatDoc.
+ *
+ * @param options.baseURL - Base URL of the ChatDoc API.
+ * @param options.credentials - The APPID and APISecret.
+ * @param options.file - The document. URL documents are fetched by ChatDoc.
+ * @param options.fetch - Fetch implementation.
+ * @param options.abortSignal - Cancels the upload.
+ * @returns The file ID.
+ */
+export async function uploadSparkChatDocFile({
+  baseURL,
+  credentials,
+  file,
+  fetch,
+  abortSignal,
+}: {
+  baseURL: string
+  credentials: SparkAppCredentials
+  file: SparkChatDocFile
+  fetch?: FetchFunction
+  abortSignal?: AbortSignal
+}): Promise<string> {
+  const formData = new FormData()
+  if (file.data instanceof URL) {
+    formData.append("url", file.data.toString())
+  }
+  else {
+    formData.append("file", new Blob([file.data], { type: file.mimeType }), file.filename)
+  }
+  formData.append("fileName", file.filename)
+  formData.append("fileType", "wiki")
+
+  const response = await postFormToSparkChatDoc({
+    url: `${baseURL}/v1/file/upload`,
+    credentials,
+    formData,
+    values: { fileName: file.filename, fileType: "wiki" },
+    schema: sparkChatDocUploadResponseSchema,
+    fetch,
+    abortSignal,
+  })
+
+  if (response.data == null) {
+    throw new Error(`ChatDoc returned no file ID for '${file.filename}'.`)
+  }
+  return response.data.fileId
+}
+
+/**
+ * Polls the ChatDoc file status until all files are processed.
+ *
+ * @param options.baseURL - Base URL of the ChatDoc API.
+ * @param options.credentials - The APPID and APISecret.
+ * @param options.fileIds - The file IDs.
+ * @param options.pollIntervalMs - Delay between status requests.
+ * @param options.timeoutMs - Maximum time to wait.
+ * @param options.fetch - Fetch implementation.
+ * @param options.abortSignal - Stops waiting.
+ */
+export async function waitForSparkChatDocFiles({
+  baseURL,
+  credentials,
+  fileIds,
+  pollIntervalMs,
+  timeoutMs,
+  fetch,
+  abortSignal,
+}: {
+  baseURL: string
+  credentials: SparkAppCredentials
+  fileIds: string[]
+  pollIntervalMs: number
+  timeoutMs: number
+  fetch?: FetchFunction
+  abortSignal?: AbortSignal
+}): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  const url = `${baseURL}/v1/file/status`
+
+  for (;;) {
+    const formData = new FormData()
+    formData.append("fileIds", fileIds.join(","))
+
+    const response = await postFormToSparkChatDoc({
+      url,
+      credentials,
+      formData,
+      values: { fileIds },
+      schema: sparkChatDocStatusResponseSchema,
+      fetch,
+      abortSignal,
+    })
+
+    const statuses = response.data ?? []
+    const failed = statuses.find(status => status.fileStatus === "failed")
+    if (failed != null) {
+      throw new APICallError({
+        message: `ChatDoc could not process file ${failed.fileId}.`,
+        url,
+        requestBodyValues: { fileIds },
+        data: response,
+        isRetryable: false,
+      })
+    }
+    if (
+      statuses.length === fileIds.length
+      && statuses.every(status => status.fileStatus === "vectored")
+    ) {
+      return
+    }
+
+    if (Date.now() + pollIntervalMs > deadline) {
+      throw new APICallError({
+        message: `ChatDoc did not finish processing files ${fileIds.join(", ")} within ${timeoutMs}ms.`,
+        url,
+        requestBodyValues: { fileIds },
+        data: response,
+        isRetryable: false,
+      })
+    }
+    await sleep(pollIntervalMs, abortSignal)
+  }
+}
+
+/**
+ * Opens a ChatDoc chat against processed files.
+ *
+ * @param options.baseURL - Base URL of the ChatDoc API.
+ * @param options.credentials - The APPID and APISecret.
+ * @param options.fileIds - The file IDs to answer from.
+ * @param options.messages - The conversation. ChatDoc accepts user and assistant messages.
+ * @param options.temperature - Sampling temperature.
+ * @param options.webSocket - WebSocket implementation to use.
+ * @param options.abortSignal - Cancels the request.
+ * @returns A stream of parsed response frames.
+ */
+export async function openSparkChatDoc({
+  baseURL,
+  credentials,
+  fileIds,
+  messages,
+  temperature,
+  webSocket,
+  abortSignal,
+}: {
+  baseURL: string
+  credentials: SparkAppCredentials
+  fileIds: string[]
+  messages: Array<{ role: "user" | "assistant", content: string }>
+  temperature?: number
+  webSocket?: SparkWebSocketConstructor
+  abortSignal?: AbortSignal
+}): Promise<ReadableStream<ParseResult<SparkChatDocFrame>>> {
+  const url = new URL(`${baseURL.replace(/^http/, "ws")}/chat`)
+  for (const [name, value] of Object.entries(await createSignedHeaders(credentials))) {
+    url.searchParams.set(name, value)
+  }
+
+  return openSparkWebSocket({
+    url: url.toString(),
+    body: {
+      fileIds,
+      messages,
+      ...(temperature != null ? { chatExtends: { temperature } } : {}),
+    },
+    abortSignal,
+    webSocket,
+    frameSchema: sparkChatDocFrameSchema,
+    getFrameHeader: frame => ({ ...frame, message: frame.content }),
+  })
+}
+
+/**
+ * Converts chat messages to the ChatDoc conversation format. ChatDoc only
+ * knows user and assistant turns: system messages are prepended to the next
+ * user message and tool messages are dropped.
+ *
+ * @param messages - The chat messages.
+ * @returns The ChatDoc messages.
+ */
+export function convertToSparkChatDocMessages(
+  messages: SparkChatPrompt,
+): Array<{ role: "user" | "assistant", content: string }> {
+  const converted: Array<{ role: "user" | "assistant", content: string }> = []
+  let system: string[] = []
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "system": {
+        system.push(message.content)
+        break
+      }
+      case "user": {
+        const content = typeof message.content === "string"
+          ? message.content
+          : message.content.map(part => (part.type === "text" ? part.text : "")).join("")
+        converted.push({ role: "user", content: [...system, content].join("\n\n") })
+        system = []
+        break
+      }
+      case "assistant": {
+        converted.push({ role: "assistant", content: message.content ?? "" })
+        break
+      }
+    }
+  }
+
+  return converted
+}
+
+/**
+ * Maps a ChatDoc frame to the chunk shape of the WebSocket chat transport.
+ *
+ * @param frame - The parsed ChatDoc frame.
+ * @returns A chat completion chunk.
+ */
+export function mapSparkChatDocFrame(frame: SparkChatDocFrame): SparkWebSocketChunk {
+  return {
+    code: frame.code,
+    message: undefined,
+    sid: frame.sid,
+    id: frame.sid,
+    choices: [
+      {
+        delta: {
+          role: "assistant",
+          content: frame.content ?? undefined,
+          reasoning_content: undefined,
+          plugins_content: undefined,
+          tool_calls: undefined,
+        },
+        finish_reason: frame.status === 2 ? "stop" : null,
+      },
+    ],
+    usage: undefined,
+  }
+}
@@ -0,0 +1,114 @@
+import type { LanguageModelV1Prompt } from "@ai-sdk/provider"
+import type { SparkCompletionSettings } from "./spark-completion-settings"
+import { convertReadableStreamToArray } from "@ai-sdk/provider-utils/test"
+import { describe, expect, it } from "vitest"
+import { createSparkProvider } from "./spark-provider"
+
+const prompt: LanguageModelV1Prompt = [
+  { role: "user", content: [{ type: "text", text: "床前明月光，" }] },
+]
+
+/**
+ * Answers every request with the given body, as JSON or as server-sent events.
+ */
+function createRecordingFetch(response: unknown, { stream = false }: { stream?: boolean } = {}) {
+  const requests: Array<{ url: string, body: Record<string, unknown> }> = []
+  const fetch = async (url: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({ url: url.toString(), body: JSON.parse(init!.body as string) })
+    return stream
+      ? new Response(
+          [...(response as unknown[]).map(chunk => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"].join(""),
+          { headers: { "content-type": "text/event-stream" } },
+        )
+      : new Response(JSON.stringify(response), { headers: { "content-type": "application/json" } })
+  }
+  return { fetch, requests }
+}
+
+const chatResponse = {
+  code: 0,
+  message: "Success",
+  sid: "sid-1",
+  id: "cha-1",
+  created: 1700000000,
+  choices: [{ message: { role: "assistant", content: "疑是地上霜。" }, finish_reason: "stop" }],
+  usage: { prompt_tokens: 5, completion_tokens: 6, total_tokens: 11 },
+}
+
+function createModel(fetch: ReturnType<typeof createRecordingFetch>["fetch"], settings?: SparkCompletionSettings) {
+  return createSparkProvider({ apiKey: "key:secret", fetch }).completionModel("4.0Ultra", settings)
+}
+
+describe("completionModel", () => {
+  it("emulates completions on /chat/completions by default", async () => {
+    const { fetch, requests } = createRecordingFetch(chatResponse)
+
+    const { text, finishReason, usage } = await createModel(fetch).doGenerate({ inputFormat: "prompt", mode: { type: "regular" }, prompt })
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0].url).toBe("https://spark-api-open.xf-yun.com/v1/chat/completions")
+    expect(requests[0].body).toMatchObject({ model: "4.0Ultra", messages: [{ role: "user", content: "床前明月光，" }] })
+    expect(requests[0].body).not.toHaveProperty("prompt")
+    expect(text).toBe("疑是地上霜。")
+    expect(finishReason).toBe("stop")
+    expect(usage).toStrictEqual({ promptTokens: 5, completionTokens: 6 })
+  })
+
+  it("emulates echo by prepending the prompt", async () => {
+    const { fetch, requests } = createRecordingFetch(chatResponse)
+
+    const { text } = await createModel(fetch, { echo: true }).doGenerate({ inputFormat: "prompt", mode: { type: "regular" }, prompt })
+
+    expect(text).toBe("床前明月光，疑是地上霜。")
+    expect(requests[0].body).not.toHaveProperty("echo")
+  })
+
+  it("emulates echo when streaming", async () => {
+    const { fetch } = createRecordingFetch([
+      { ...chatResponse, choices: [{ delta: { role: "assistant", content: "疑是" }, finish_reason: null }], usage: undefined },
+      { ...chatResponse, choices: [{ delta: { content: "地上霜。" }, finish_reason: "stop" }] },
+    ], { stream: true })
+
+    const { stream } = await createModel(fetch, { echo: true }).doStream({ inputFormat: "prompt", mode: { type: "regular" }, prompt })
+    const parts = await convertReadableStreamToArray(stream)
+
+    expect(parts.filter(part => part.type === "text-delta")).toStrictEqual([
+      { type: "text-delta", textDelta: "床前明月光，" },
+      { type: "text-delta", textDelta: "疑是" },
+      { type: "text-delta", textDelta: "地上霜。" },
+    ])
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "stop", usage: { promptTokens: 5, completionTokens: 6 } })
+  })
+
+  it("warns about suffix and logitBias and does not send them", async () => {
+    const { fetch, requests } = createRecordingFetch(chatResponse)
+
+    const { warnings } = await createModel(fetch, { suffix: "。", logitBias: { 100: -100 } })
+      .doGenerate({ inputFormat: "prompt", mode: { type: "regular" }, prompt })
+
+    expect(warnings).toStrictEqual([
+      { type: "other", message: "logitBias is not supported when completions are emulated on /chat/completions." },
+      { type: "other", message: "suffix is not supported when completions are emulated on /chat/completions." },
+    ])
+    expect(requests[0].body).not.toHaveProperty("suffix")
+    expect(requests[0].body).not.toHaveProperty("logit_bias")
+  })
+
+  it("calls /completions with emulateCompletions: false", async () => {
+    const { fetch, requests } = createRecordingFetch({
+      id: "cmpl-1",
+      created: 1700000000,
+      model: "4.0Ultra",
+      choices: [{ text: "疑是地上霜。", finish_reason: "stop" }],
+      usage: { prompt_tokens: 5, completion_tokens: 6 },
+    })
+
+    const { text, warnings } = await createModel(fetch, { emulateCompletions: false, echo: true, suffix: "。" })
+      .doGenerate({ inputFormat: "prompt", mode: { type: "regular" }, prompt })
+
+    expect(requests[0].url).toBe("https://spark-api-open.xf-yun.com/v1/completions")
+    expect(requests[0].body).toMatchObject({ model: "4.0Ultra", prompt: "床前明月光，", echo: true, suffix: "。" })
+    expect(text).toBe("疑是地上霜。")
+    expect(warnings).toStrictEqual([])
+  })
+})
@@ -3,6 +3,7 @@ import type {
   LanguageModelV1,
   LanguageModelV1CallWarning,
   LanguageModelV1FinishReason,
+  LanguageModelV1ProviderMetadata,
   LanguageModelV1StreamPart,
 } from "@ai-sdk/provider"
 import type {
@@ -14,17 +15,21 @@ import type {
   SparkCompletionModelId,
   SparkCompletionSettings,
 } from "./spark-completion-settings"
+import type { SparkCredentials } from "./spark-credentials"
 import type {
   SparkErrorStructure,
 } from "./spark-error"
+import type { SparkKeyPool } from "./spark-key-pool"
+import type { SparkModelInfo } from "./spark-model-catalog"
+import type { SparkAcquireRateLimitSlot } from "./spark-rate-limiter"
+import type { SparkRequestConfig } from "./spark-request"
+import type { SparkRetrySettings } from "./spark-retry"
 import {
   UnsupportedFunctionalityError,
 } from "@ai-sdk/provider"
 import {
   combineHeaders,
   createEventSourceResponseHandler,
-  createJsonErrorResponseHandler,
-  createJsonResponseHandler,
   postJsonToApi,
 } from "@ai-sdk/provider-utils"
 import { z } from "zod"
@@ -32,15 +37,32 @@ import { convertToSparkCompletionPrompt } from "./convert-to-spark-completion-pr
 import { getResponseMetadata } from "./get-response-metadata"
 import { mapSparkFinishReason } from "./map-spark-finish-reason"
 import {
+  createSparkAPICallError,
+  createSparkFailedResponseHandler,
+  createSparkJsonResponseHandler,
   defaultSparkErrorStructure,
 } from "./spark-error"
+import { releaseOnStreamEnd } from "./spark-rate-limiter"
+import { sendSparkRequest } from "./spark-request"
+import { normalizeSparkSampling } from "./spark-sampling"
 
 interface SparkCompletionConfig {
   provider: string
-  headers: () => Record<string, string | undefined>
+  headers: (options: {
+    modelId: string
+    credentials?: SparkCredentials
+  }) => PromiseLike<Record<string, string | undefined>>
   url: (options: { modelId: string, path: string }) => string
   fetch?: FetchFunction
   errorStructure?: SparkErrorStructure<any>
+  retry?: SparkRetrySettings
+  acquireRateLimitSlot?: SparkAcquireRateLimitSlot
+  keyPool?: SparkKeyPool
+  resolveCredentials?: SparkRequestConfig["resolveCredentials"]
+  /**
+   * Catalog entry of the model, used to map sampling settings to its ranges.
+   */
+  modelInfo?: SparkModelInfo
 }
 // limited version of the schema, focussed on what is needed for the implementation
 // this approach limits breakages when the API changes and increases efficiency
@@ -51,7 +73,7 @@ const SparkCompletionResponseSchema = z.object({
   choices: z.array(
     z.object({
       text: z.string(),
-      finish_reason: z.string(),
+      finish_reason: z.string().nullish(),
     }),
   ),
   usage: z
@@ -62,6 +84,32 @@ const SparkCompletionResponseSchema = z.object({
     .nullish(),
 })
 
+/**
+ * Chat completion response of an emulated completion, mapped to the completion response shape.
+ */
+const SparkEmulatedCompletionResponseSchema = z
+  .object({
+    id: z.string().nullish(),
+    created: z.number().nullish(),
+    model: z.string().nullish(),
+    choices: z.array(
+      z.object({
+        message: z.object({
+          content: z.string().nullish(),
+        }),
+        finish_reason: z.string().nullish(),
+      }),
+    ),
+    usage: SparkCompletionResponseSchema.shape.usage,
+  })
+  .transform(({ choices, ...response }) => ({
+    ...response,
+    choices: choices.map(choice => ({
+      text: choice.message.content ?? "",
+      finish_reason: choice.finish_reason,
+    })),
+  }))
+
 /**
  * A language model implementation for Spark completions.
  *
@@ -78,6 +126,11 @@ implements LanguageModelV1 {
 
   private readonly config: SparkCompletionConfig
   private readonly failedResponseHandler: ResponseHandler<APICallError>
+  private readonly responseSchema: z.ZodType<
+    z.infer<typeof SparkCompletionResponseSchema>,
+    z.ZodTypeDef,
+    any
+  >
   private readonly chunkSchema // type inferred via constructor
 
   /**
@@ -99,10 +152,14 @@ implements LanguageModelV1 {
     // Initialize error handling schema and response handler.
     const errorStructure
         = config.errorStructure ?? defaultSparkErrorStructure
+    this.responseSchema = this.emulatesCompletions
+      ? SparkEmulatedCompletionResponseSchema
+      : SparkCompletionResponseSchema
     this.chunkSchema = createSparkCompletionChunkSchema(
       errorStructure.errorSchema,
+      this.emulatesCompletions,
     )
-    this.failedResponseHandler = createJsonErrorResponseHandler(errorStructure)
+    this.failedResponseHandler = createSparkFailedResponseHandler(errorStructure)
   }
 
   get provider(): string {
@@ -113,13 +170,28 @@ implements LanguageModelV1 {
     return this.config.provider.split(".")[0].trim()
   }
 
+  /**
+   * Whether completions are emulated on `/chat/completions`.
+   */
+  private get emulatesCompletions(): boolean {
+    return this.settings.emulateCompletions ?? true
+  }
+
+  /**
+   * Path of the endpoint requests are sent to.
+   */
+  private get path(): string {
+    return this.emulatesCompletions ? "/chat/completions" : "/completions"
+  }
+
   /**
    * Generates the arguments for invoking the LanguageModelV1 doGenerate method.
    *
    * This function processes the given options to build a configuration object for the request. It converts the
    * input prompt to a Spark-specific format, merges stop sequences from both the user and the prompt conversion,
-   * and applies standardized settings for model generation. Additionally, it emits warnings for any unsupported
-   * settings (e.g., topK and non-text response formats) and throws errors if unsupported functionalities
+   * and applies standardized settings for model generation. Sampling settings are mapped to the model's ranges.
+   * Additionally, it emits warnings for any unsupported
+   * settings (e.g., seed and non-text response formats) and throws errors if unsupported functionalities
    * (such as tools, toolChoice, or specific modes) are detected.
    *
    * @param options - The configuration options for generating completion arguments.
@@ -129,16 +201,19 @@ implements LanguageModelV1 {
    * @param options.maxTokens - The maximum number of tokens to generate.
    * @param options.temperature - The sampling temperature for generation randomness.
    * @param options.topP - The nucleus sampling probability threshold.
-   * @param options.topK - The Top-K sampling parameter (unsupported; will trigger a warning if provided).
-   * @param options.frequencyPenalty - The frequency penalty to reduce token repetition.
+   * @param options.topK - The Top-K sampling parameter, sent as `top_k`.
+   * @param options.frequencyPenalty - Ignored by Spark; triggers a warning.
    * @param options.presencePenalty - The presence penalty to encourage novel token generation.
    * @param options.stopSequences - Additional stop sequences provided by the user.
    * @param options.responseFormat - The desired response format (non-text formats will trigger a warning).
-   * @param options.seed - The seed for random number generation, ensuring deterministic outputs.
+   * @param options.seed - Ignored by Spark; triggers a warning.
    * @param options.providerMetadata - Additional metadata to be merged into the provider-specific settings.
    *
    * @returns An object containing:
    *  - args: The built arguments object ready to be passed to the generation method.
+   *    When completions are emulated, the prompt is sent as a single user message.
+   *  - completionPrompt: The prompt text, used to emulate `echo`.
+   *  - rawSettings: The arguments without the prompt.
    *  - warnings: A list of warnings for unsupported settings that were detected.
    *
    * @throws UnsupportedFunctionalityError If unsupported functionalities (tools, toolChoice, object-json mode,
@@ -163,14 +238,15 @@ implements LanguageModelV1 {
 
     const warnings: LanguageModelV1CallWarning[] = []
 
-    // Warn if unsupported settings are used.
-    if (topK != null) {
-      warnings.push({
-        type: "unsupported-setting",
-        setting: "topK",
-      })
-    }
+    const sampling = normalizeSparkSampling({
+      settings: { maxTokens, temperature, topP, topK, frequencyPenalty, seed },
+      modelId: this.modelId,
+      modelInfo: this.config.modelInfo,
+      outOfRange: this.settings.outOfRangeSettings,
+    })
+    warnings.push(...sampling.warnings)
 
+    // Warn if unsupported settings are used.
     if (responseFormat != null && responseFormat.type !== "text") {
       warnings.push({
         type: "unsupported-setting",
@@ -181,30 +257,58 @@ implements LanguageModelV1 {
 
     // Convert prompt to Spark-specific prompt info.
     const { prompt: completionPrompt, stopSequences }
-        = convertToSparkCompletionPrompt({ prompt, inputFormat })
+        = convertToSparkCompletionPrompt({
+          prompt,
+          inputFormat,
+          template: this.settings.template,
+        })
 
     const stop = [...(stopSequences ?? []), ...(userStopSequences ?? [])]
 
-    const baseArgs = {
+    if (this.emulatesCompletions) {
+      // The chat endpoint has no equivalent for these settings.
+      if (this.settings.logitBias != null) {
+        warnings.push({
+          type: "other",
+          message: "logitBias is not supported when completions are emulated on /chat/completions.",
+        })
+      }
+      if (this.settings.suffix != null) {
+        warnings.push({
+          type: "other",
+          message: "suffix is not supported when completions are emulated on /chat/completions.",
+        })
+      }
+    }
+
+    const rawSettings = {
       // Model id and settings:
       model: this.modelId,
-      echo: this.settings.echo,
-      logit_bias: this.settings.logitBias,
-      suffix: this.settings.suffix,
+      ...(!this.emulatesCompletions && {
+        echo: this.settings.echo,
+        logit_bias: this.settings.logitBias,
+        suffix: this.settings.suffix,
+      }),
       user: this.settings.user,
       // Standardized settings:
-      max_tokens: maxTokens,
-      temperature,
-      top_p: topP,
-      frequency_penalty: frequencyPenalty,
+      max_tokens: sampling.maxTokens,
+      temperature: sampling.temperature,
+      top_p: sampling.topP,
+      top_k: sampling.topK,
       presence_penalty: presencePenalty,
-      seed,
       ...providerMetadata?.[this.providerOptionsName],
-      // Prompt and stop sequences:
-      prompt: completionPrompt,
+      // Stop sequences:
       stop: stop.length > 0 ? stop : undefined,
     }
 
+    const baseArgs = {
+      ...rawSettings,
+      // Prompt:
+      ...(this.emulatesCompletions
+        ? { messages: [{ role: "user", content: completionPrompt }] }
+        : { prompt: completionPrompt }),
+    }
+
     switch (type) {
       case "regular": {
         // Tools are not supported in "regular" mode.
@@ -220,7 +324,7 @@ implements LanguageModelV1 {
           })
         }
 
-        return { args: baseArgs, warnings }
+        return { args: baseArgs, completionPrompt, rawSettings, warnings }
       }
 
       case "object-json": {
@@ -251,35 +355,47 @@ implements LanguageModelV1 {
   async doGenerate(
     options: Parameters<LanguageModelV1["doGenerate"]>[0],
   ): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
-    const { args, warnings } = this.getArgs(options)
-
-    const { responseHeaders, value: response } = await postJsonToApi({
-      url: this.config.url({
-        path: "/completions",
-        modelId: this.modelId,
+    const { args, completionPrompt, rawSettings, warnings } = this.getArgs(options)
+
+    const {
+      responseHeaders,
+      value: response,
+      queueWaitMs,
+      keyAlias,
+    } = await sendSparkRequest(
+      async credentials => postJsonToApi({
+        url: this.config.url({
+          path: this.path,
+          modelId: this.modelId,
+        }),
+        headers: combineHeaders(
+          await this.config.headers({ modelId: this.modelId, credentials }),
+          options.headers,
+        ),
+        body: args,
+        failedResponseHandler: this.failedResponseHandler,
+        successfulResponseHandler: createSparkJsonResponseHandler(
+          this.responseSchema,
+        ),
+        abortSignal: options.abortSignal,
+        fetch: this.config.fetch,
       }),
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: args,
-      failedResponseHandler: this.failedResponseHandler,
-      successfulResponseHandler: createJsonResponseHandler(
-        SparkCompletionResponseSchema,
-      ),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
-    })
+      { modelId: this.modelId, config: this.config, abortSignal: options.abortSignal },
+    )
 
-    // Extract raw prompt and settings for debugging.
-    const { prompt: rawPrompt, ...rawSettings } = args
     const choice = response.choices[0]
+    // The chat endpoint only returns the completion; echo is emulated by prepending the prompt.
+    const echo = this.emulatesCompletions && this.settings.echo === true
 
     return {
-      text: choice.text,
+      text: echo ? completionPrompt + choice.text : choice.text,
       usage: {
         promptTokens: response.usage?.prompt_tokens ?? Number.NaN,
         completionTokens: response.usage?.completion_tokens ?? Number.NaN,
       },
       finishReason: mapSparkFinishReason(choice.finish_reason),
-      rawCall: { rawPrompt, rawSettings },
+      providerMetadata: getSparkProviderMetadata({ queueWaitMs, keyAlias }),
+      rawCall: { rawPrompt: completionPrompt, rawSettings },
       rawResponse: { headers: responseHeaders },
       response: getResponseMetadata(response),
       warnings,
@@ -296,29 +412,49 @@ implements LanguageModelV1 {
   async doStream(
     options: Parameters<LanguageModelV1["doStream"]>[0],
   ): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
-    const { args, warnings } = this.getArgs(options)
+    const { args, completionPrompt, rawSettings, warnings } = this.getArgs(options)
 
     const body = {
       ...args,
       stream: true,
     }
 
-    const { responseHeaders, value: response } = await postJsonToApi({
-      url: this.config.url({
-        path: "/completions",
-        modelId: this.modelId,
-      }),
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body,
-      failedResponseHandler: this.failedResponseHandler,
-      successfulResponseHandler: createEventSourceResponseHandler(
-        this.chunkSchema,
-      ),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
+    const url = this.config.url({
+      path: this.path,
+      modelId: this.modelId,
     })
 
-    const { prompt: rawPrompt, ...rawSettings } = args
+    // Retries only cover establishing the stream, before the first byte is consumed.
+    const {
+      responseHeaders,
+      value: response,
+      queueWaitMs,
+      keyAlias,
+    } = await sendSparkRequest(
+      async credentials => postJsonToApi({
+        url,
+        headers: combineHeaders(
+          await this.config.headers({ modelId: this.modelId, credentials }),
+          options.headers,
+        ),
+        body,
+        failedResponseHandler: this.failedResponseHandler,
+        successfulResponseHandler: createEventSourceResponseHandler(
+          this.chunkSchema,
+        ),
+        abortSignal: options.abortSignal,
+        fetch: this.config.fetch,
+      }),
+      {
+        modelId: this.modelId,
+        config: this.config,
+        abortSignal: options.abortSignal,
+        // Streams keep their rate limit slot until they are closed.
+        holdSlot: releaseOnStreamEnd,
+      },
+    )
+
+    const echo = this.emulatesCompletions && this.settings.echo === true
 
     let finishReason: LanguageModelV1FinishReason = "unknown"
     let usage: { promptTokens: number, completionTokens: number } = {
@@ -344,9 +480,14 @@ implements LanguageModelV1 {
             const value = chunk.value
 
             // If the API returns an error inside the chunk.
-            if ("error" in value) {
+            const sparkError = createSparkAPICallError({
+              data: value,
+              url,
+              requestBodyValues: body,
+            })
+            if (sparkError != null || !("choices" in value)) {
               finishReason = "error"
-              controller.enqueue({ type: "error", error: value.error })
+              controller.enqueue({ type: "error", error: sparkError ?? value })
               return
             }
 
@@ -358,6 +499,13 @@ implements LanguageModelV1 {
                 type: "response-metadata",
                 ...getResponseMetadata(value),
               })
+
+              if (echo) {
+                controller.enqueue({
+                  type: "text-delta",
+                  textDelta: completionPrompt,
+                })
+              }
             }
 
             if (value.usage != null) {
@@ -390,11 +538,12 @@ implements LanguageModelV1 {
               type: "finish",
               finishReason,
               usage,
+              providerMetadata: getSparkProviderMetadata({ queueWaitMs, keyAlias }),
             })
           },
         }),
       ),
-      rawCall: { rawPrompt, rawSettings },
+      rawCall: { rawPrompt: completionPrompt, rawSettings },
       rawResponse: { headers: responseHeaders },
       warnings,
       request: { body: JSON.stringify(body) },
@@ -408,30 +557,81 @@ implements LanguageModelV1 {
  * Creates a Zod schema to validate Spark completion stream chunks.
  *
  * @param errorSchema - Schema to validate error objects.
+ * @param emulated - Whether the chunks are chat completion chunks of an emulated completion.
+ *                   They are mapped to the completion chunk shape.
  * @returns A union schema for a valid chunk or an error.
  */
 function createSparkCompletionChunkSchema<
   ERROR_SCHEMA extends z.ZodType,
->(errorSchema: ERROR_SCHEMA) {
-  return z.union([
-    z.object({
-      id: z.string().nullish(),
-      created: z.number().nullish(),
-      model: z.string().nullish(),
+>(errorSchema: ERROR_SCHEMA, emulated: boolean) {
+  const baseChunkSchema = z.object({
+    code: z.number().nullish(),
+    message: z.string().nullish(),
+    sid: z.string().nullish(),
+    id: z.string().nullish(),
+    created: z.number().nullish(),
+    model: z.string().nullish(),
+    usage: z
+      .object({
+        prompt_tokens: z.number(),
+        completion_tokens: z.number(),
+      })
+      .nullish(),
+  })
+
+  const chunkSchema = emulated
+    ? baseChunkSchema
+      .extend({
+        choices: z.array(
+          z.object({
+            delta: z
+              .object({
+                content: z.string().nullish(),
+              })
+              .nullish(),
+            finish_reason: z.string().nullish(),
+            index: z.number().nullish(),
+          }),
+        ),
+      })
+      .transform(({ choices, ...chunk }) => ({
+        ...chunk,
+        choices: choices.map((choice, index) => ({
+          text: choice.delta?.content ?? undefined,
+          finish_reason: choice.finish_reason,
+          index: choice.index ?? index,
+        })),
+      }))
+    : baseChunkSchema.extend({
       choices: z.array(
         z.object({
-          text: z.string(),
+          text: z.string().nullish(),
           finish_reason: z.string().nullish(),
           index: z.number(),
         }),
       ),
-      usage: z
-        .object({
-          prompt_tokens: z.number(),
-          completion_tokens: z.number(),
-        })
-        .nullish(),
-    }),
-    errorSchema,
-  ])
-}
\ No newline at end of file
+    })
+
+  return z.union([chunkSchema, errorSchema])
+}
+
+/**
+ * Builds the provider metadata for the queue wait time and pool key, if any.
+ */
+function getSparkProviderMetadata({
+  queueWaitMs,
+  keyAlias,
+}: {
+  queueWaitMs: number | undefined
+  keyAlias: string | undefined
+}): LanguageModelV1ProviderMetadata | undefined {
+  if (queueWaitMs == null && keyAlias == null) {
+    return undefined
+  }
+  return {
+    spark: {
+      ...(queueWaitMs != null && { queueWaitMs }),
+      ...(keyAlias != null && { keyAlias }),
+    },
+  }
+}
@@ -1,8 +1,40 @@
 import { OpenAICompatibleCompletionSettings } from '@ai-sdk/openai-compatible';
 import { SparkChatModelId } from './spark-chat-settings';
+import {
+  SparkCompletionTemplate,
+  SparkCompletionTemplateFunction,
+  SparkCompletionTemplatePreset,
+} from './spark-completion-template';
+import { SparkOutOfRangeSettings } from './spark-sampling';
 
 // Use the same model IDs as chat
 export type SparkCompletionModelId = SparkChatModelId;
 
 export interface SparkCompletionSettings
-  extends OpenAICompatibleCompletionSettings {}
+  extends OpenAICompatibleCompletionSettings {
+  /**
+Sends the completion prompt as a single user message to `/chat/completions`,
+because Spark does not serve `/completions`. `echo` is emulated by prepending
+the prompt to the result; `suffix` and `logitBias` are not supported.
+Defaults to `true`. Earlier versions always called `/completions`: set it to
+`false` to keep that behavior.
+*/
+  emulateCompletions?: boolean;
+
+  /**
+Transcript format of message prompts: a preset (`plain`, `chatml`, `chinese`),
+a template with role labels, separators, system placement and stop sequences,
+or a formatter function. Defaults to `plain` (`user:` / `assistant:`).
+*/
+  template?:
+    | SparkCompletionTemplatePreset
+    | SparkCompletionTemplate
+    | SparkCompletionTemplateFunction;
+
+  /**
+What happens to `temperature`, `topP`, `topK` and `maxTokens` outside of the
+model's range: `clamp` them with a warning, or `reject` the call.
+Defaults to `clamp`.
+*/
+  outOfRangeSettings?: SparkOutOfRangeSettings;
+}
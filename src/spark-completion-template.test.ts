@@ -0,0 +1,137 @@
+import type { LanguageModelV1Prompt } from "@ai-sdk/provider"
+import type { SparkCompletionTemplateMessage } from "./spark-completion-template"
+import { describe, expect, it, vi } from "vitest"
+import { convertToSparkCompletionPrompt } from "./convert-to-spark-completion-prompt"
+import { applySparkCompletionTemplate } from "./spark-completion-template"
+
+const messages: SparkCompletionTemplateMessage[] = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: "Hi" },
+  { role: "assistant", content: "Hello!" },
+  { role: "user", content: "Who are you?" },
+]
+
+describe("applySparkCompletionTemplate", () => {
+  it.each([
+    {
+      template: "plain" as const,
+      prompt: "Be brief.\n\nuser:\nHi\n\nassistant:\nHello!\n\nuser:\nWho are you?\n\nassistant:\n",
+      stopSequences: ["\nuser:"],
+    },
+    {
+      template: "chatml" as const,
+      prompt: [
+        "<|im_start|>system\nBe brief.<|im_end|>\n",
+        "<|im_start|>user\nHi<|im_end|>\n",
+        "<|im_start|>assistant\nHello!<|im_end|>\n",
+        "<|im_start|>user\nWho are you?<|im_end|>\n",
+        "<|im_start|>assistant\n",
+      ].join(""),
+      stopSequences: ["<|im_end|>", "<|im_start|>"],
+    },
+    {
+      template: "chinese" as const,
+      prompt: "Be brief.\n\n用户:\nHi\n\n助手:\nHello!\n\n用户:\nWho are you?\n\n助手:\n",
+      stopSequences: ["\n用户:"],
+    },
+  ])("formats the $template preset", ({ template, prompt, stopSequences }) => {
+    expect(applySparkCompletionTemplate(messages, template)).toStrictEqual({ prompt, stopSequences })
+  })
+
+  it("defaults to the plain preset", () => {
+    expect(applySparkCompletionTemplate(messages)).toStrictEqual(applySparkCompletionTemplate(messages, "plain"))
+  })
+
+  it("formats custom templates and derives the stop sequence from the user turn", () => {
+    const template = {
+      labels: { user: "Human", assistant: "AI" },
+      turnStart: "### {role}: ",
+      turnEnd: "\n",
+    }
+
+    expect(applySparkCompletionTemplate(messages, template)).toStrictEqual({
+      prompt: "Be brief.\n### Human: Hi\n### AI: Hello!\n### Human: Who are you?\n### AI: ",
+      stopSequences: ["\n### Human:"],
+    })
+  })
+
+  it.each([
+    {
+      systemPlacement: "prefix" as const,
+      prompt: "Be brief.\n### Human: Hi\n### AI: Hello!\n### Human: Who are you?\n### AI: ",
+    },
+    {
+      systemPlacement: "turn" as const,
+      prompt: "### system: Be brief.\n### Human: Hi\n### AI: Hello!\n### Human: Who are you?\n### AI: ",
+    },
+    {
+      systemPlacement: "first-user" as const,
+      prompt: "### Human: Be brief.\n\nHi\n### AI: Hello!\n### Human: Who are you?\n### AI: ",
+    },
+  ])("places the system message with systemPlacement: $systemPlacement", ({ systemPlacement, prompt }) => {
+    const template = {
+      labels: { user: "Human", assistant: "AI" },
+      turnStart: "### {role}: ",
+      turnEnd: "\n",
+      systemPlacement,
+    }
+
+    expect(applySparkCompletionTemplate(messages, template).prompt).toBe(prompt)
+  })
+
+  it("uses the system label of the template for system turns", () => {
+    const template = {
+      labels: { system: "Rules", user: "Human", assistant: "AI" },
+      turnStart: "### {role}: ",
+      turnEnd: "\n",
+      systemPlacement: "turn" as const,
+    }
+
+    expect(applySparkCompletionTemplate(messages.slice(0, 2), template).prompt).toBe("### Rules: Be brief.\n### Human: Hi\n### AI: ")
+  })
+
+  it("uses the stop sequences of the template", () => {
+    const template = {
+      labels: { user: "Human", assistant: "AI" },
+      turnStart: "### {role}: ",
+      turnEnd: "\n",
+      stopSequences: ["###"],
+    }
+
+    expect(applySparkCompletionTemplate(messages, template).stopSequences).toStrictEqual(["###"])
+  })
+
+  it("passes the messages to formatter functions", () => {
+    const template = vi.fn(() => ({ prompt: "formatted", stopSequences: ["END"] }))
+
+    expect(applySparkCompletionTemplate(messages, template)).toStrictEqual({ prompt: "formatted", stopSequences: ["END"] })
+    expect(template).toHaveBeenCalledWith(messages)
+  })
+})
+
+describe("convertToSparkCompletionPrompt", () => {
+  it("formats messages with the plain preset exactly like the converter before templates", () => {
+    const prompt: LanguageModelV1Prompt = [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: [{ type: "text", text: "Hi" }, { type: "text", text: " there" }] },
+      { role: "assistant", content: [{ type: "text", text: "Hello!" }] },
+      { role: "user", content: [{ type: "text", text: "Who are you?" }] },
+    ]
+
+    // The output of convertToSparkCompletionPrompt before templates were added.
+    expect(convertToSparkCompletionPrompt({ prompt, inputFormat: "messages" })).toStrictEqual({
+      prompt: "Be brief.\n\nuser:\nHi there\n\nassistant:\nHello!\n\nuser:\nWho are you?\n\nassistant:\n",
+      stopSequences: ["\nuser:"],
+    })
+    expect(convertToSparkCompletionPrompt({ prompt: prompt.slice(1), inputFormat: "messages", template: "plain" })).toStrictEqual({
+      prompt: "user:\nHi there\n\nassistant:\nHello!\n\nuser:\nWho are you?\n\nassistant:\n",
+      stopSequences: ["\nuser:"],
+    })
+  })
+
+  it("returns single-text prompts unchanged, whatever the template", () => {
+    const prompt: LanguageModelV1Prompt = [{ role: "user", content: [{ type: "text", text: "床前明月光，" }] }]
+
+    expect(convertToSparkCompletionPrompt({ prompt, inputFormat: "prompt", template: "chatml" })).toStrictEqual({ prompt: "床前明月光，" })
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * A text-only message passed to completion templates.
+ */
+export interface SparkCompletionTemplateMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+/**
+ * Formats messages as a completion prompt.
+ *
+ * @returns The prompt, ending where the assistant answer starts, and the stop
+ *          sequences that end the answer.
+ */
+export type SparkCompletionTemplateFunction = (
+  messages: SparkCompletionTemplateMessage[],
+) => { prompt: string, stopSequences?: string[] }
+
+/**
+ * A transcript format for completion prompts.
+ */
+export interface SparkCompletionTemplate {
+  /**
+   * Role labels.
+   */
+  labels: { system?: string, user: string, assistant: string }
+  /**
+   * Text that opens a turn. `{role}` is replaced with the role label.
+   */
+  turnStart: string
+  /**
+   * Text that closes a turn.
+   */
+  turnEnd: string
+  /**
+   * Where the system message goes:
+   *
+   * - `prefix`: at the start of the prompt, followed by `turnEnd`.
+   * - `turn`: as a turn with the system label.
+   * - `first-user`: at the start of the first user message.
+   *
+   * Defaults to `prefix`.
+   */
+  systemPlacement?: "prefix" | "turn" | "first-user"
+  /**
+   * Stop sequences. Defaults to the start of a user turn on a new line.
+   */
+  stopSequences?: string[]
+}
+
+/**
+ * Names of the built-in templates.
+ */
+export type SparkCompletionTemplatePreset = "plain" | "chatml" | "chinese"
+
+/**
+ * Built-in templates.
+ *
+ * - `plain`: `user:` / `assistant:` transcript (the default).
+ * - `chatml`: `<|im_start|>` / `<|im_end|>` turns.
+ * - `chinese`: `用户:` / `助手:` transcript.
+ */
+export const sparkCompletionTemplates: Record<SparkCompletionTemplatePreset, SparkCompletionTemplate> = {
+  plain: {
+    labels: { user: "user", assistant: "assistant" },
+    turnStart: "{role}:\n",
+    turnEnd: "\n\n",
+  },
+  chatml: {
+    labels: { system: "system", user: "user", assistant: "assistant" },
+    turnStart: "<|im_start|>{role}\n",
+    turnEnd: "<|im_end|>\n",
+    systemPlacement: "turn",
+    stopSequences: ["<|im_end|>", "<|im_start|>"],
+  },
+  chinese: {
+    labels: { system: "系统", user: "用户", assistant: "助手" },
+    turnStart: "{role}:\n",
+    turnEnd: "\n\n",
+  },
+}
+
+/**
+ * Formats messages with a template.
+ *
+ * @param messages - The messages. Only the first one can be a system message.
+ * @param template - A preset name, a template or a formatter function.
+ * @returns The prompt and its stop sequences.
+ */
+export function applySparkCompletionTemplate(
+  messages: SparkCompletionTemplateMessage[],
+  template: SparkCompletionTemplatePreset | SparkCompletionTemplate | SparkCompletionTemplateFunction = "plain",
+): { prompt: string, stopSequences?: string[] } {
+  if (typeof template === "function") {
+    return template(messages)
+  }
+
+  const {
+    labels,
+    turnStart,
+    turnEnd,
+    systemPlacement = "prefix",
+    stopSequences,
+  } = typeof template === "string" ? sparkCompletionTemplates[template] : template
+
+  const formatTurn = (label: string, content: string) =>
+    `${turnStart.replace("{role}", label)}${content}${turnEnd}`
+
+  let system = messages[0]?.role === "system" ? messages[0].content : undefined
+  let text = ""
+
+  if (system != null) {
+    messages = messages.slice(1)
+    switch (systemPlacement) {
+      case "prefix": {
+        text += `${system}${turnEnd}`
+        system = undefined
+        break
+      }
+      case "turn": {
+        text += formatTurn(labels.system ?? "system", system)
+        system = undefined
+        break
+      }
+      case "first-user": {
+        // Added to the first user message below.
+        break
+      }
+      default: {
+        const _exhaustiveCheck: never = systemPlacement
+        throw new Error(`Unsupported system placement: ${_exhaustiveCheck}`)
+      }
+    }
+  }
+
+  for (const { role, content } of messages) {
+    if (role === "user" && system != null) {
+      text += formatTurn(labels.user, `${system}\n\n${content}`)
+      system = undefined
+      continue
+    }
+    text += formatTurn(role === "user" ? labels.user : labels.assistant, content)
+  }
+
+  // The prompt ends where the assistant answer starts.
+  text += turnStart.replace("{role}", labels.assistant)
+
+  return {
+    prompt: text,
+    stopSequences: stopSequences ?? [`\n${turnStart.replace("{role}", labels.user).trim()}`],
+  }
+}
@@ -0,0 +1,109 @@
+import type { LanguageModelV1Prompt } from "@ai-sdk/provider"
+import { describe, expect, it, vi } from "vitest"
+import { convertToSparkChatMessages } from "./convert-to-spark-message"
+import { fitSparkPromptToContext } from "./spark-context-management"
+import { estimateSparkMessageTokens } from "./spark-token-estimation"
+
+function tokens(prompt: LanguageModelV1Prompt) {
+  return convertToSparkChatMessages(prompt)
+    .reduce((sum, message) => sum + estimateSparkMessageTokens(message), 0)
+}
+
+function turn(question: string, answer: string): LanguageModelV1Prompt {
+  return [
+    { role: "user", content: [{ type: "text", text: question }] },
+    { role: "assistant", content: [{ type: "text", text: answer }] },
+  ]
+}
+
+const system: LanguageModelV1Prompt = [{ role: "system", content: "You are a helpful assistant." }]
+const turns = [
+  turn("First question about the weather", "First answer about the weather"),
+  turn("Second question about the weather", "Second answer about the weather"),
+  turn("Third question about the weather", "Third answer about the weather"),
+]
+const last: LanguageModelV1Prompt = [{ role: "user", content: [{ type: "text", text: "And tomorrow?" }] }]
+const prompt = [...system, ...turns.flat(), ...last]
+
+describe("fitSparkPromptToContext", () => {
+  it("keeps prompts that fit", async () => {
+    expect(await fitSparkPromptToContext({ prompt, maxPromptTokens: tokens(prompt), modelName: "Spark Lite" }))
+      .toStrictEqual({ prompt, warnings: [] })
+  })
+
+  it("drops the oldest turns until the prompt fits", async () => {
+    const fitted = [...system, ...turns[2], ...last]
+
+    const result = await fitSparkPromptToContext({ prompt, maxPromptTokens: tokens(fitted), modelName: "Spark Lite" })
+
+    expect(result.prompt).toStrictEqual(fitted)
+    expect(result.warnings).toStrictEqual([{
+      type: "other",
+      message: `Removed the first 4 messages (about ${tokens([...turns[0], ...turns[1]])} tokens) to fit the context window of Spark Lite (${tokens(fitted)} tokens for the prompt).`,
+    }])
+  })
+
+  it("keeps only the last turns", async () => {
+    const result = await fitSparkPromptToContext({
+      prompt,
+      maxPromptTokens: tokens(prompt) - 1,
+      strategy: { type: "keep-last", turns: 2 },
+      modelName: "Spark Lite",
+    })
+
+    expect(result.prompt).toStrictEqual([...system, ...turns[2], ...last])
+  })
+
+  it("keeps the system messages and the last turn when nothing else fits", async () => {
+    const result = await fitSparkPromptToContext({ prompt, maxPromptTokens: 1, modelName: "Spark Lite" })
+
+    expect(result.prompt).toStrictEqual([...system, ...last])
+    expect(result.warnings[1]).toStrictEqual({
+      type: "other",
+      message: `The prompt (about ${tokens([...system, ...last])} tokens) still exceeds the 1 tokens available in the context window of Spark Lite.`,
+    })
+  })
+
+  it("replaces the removed turns with a summary in the system message", async () => {
+    const summarize = vi.fn(async () => "Talked about the weather.")
+    const abortSignal = new AbortController().signal
+    const summarized: LanguageModelV1Prompt = [
+      { role: "system", content: "You are a helpful assistant.\n\nSummary of the earlier conversation:\nTalked about the weather." },
+      ...turns[2],
+      ...last,
+    ]
+
+    const result = await fitSparkPromptToContext({
+      prompt,
+      maxPromptTokens: tokens(summarized),
+      strategy: { type: "summarize", summarize },
+      modelName: "Spark Lite",
+      abortSignal,
+    })
+
+    expect(summarize).toHaveBeenCalledWith({ messages: [...turns[0], ...turns[1]], abortSignal })
+    expect(result.prompt).toStrictEqual(summarized)
+    expect(result.warnings).toMatchObject([{ message: expect.stringMatching(/^Summarized the first 4 messages/) }])
+  })
+
+  it("removes more turns when the summary does not fit", async () => {
+    const summary = "A long summary of everything that was said about the weather so far."
+    const fitted: LanguageModelV1Prompt = [
+      { role: "system", content: `You are a helpful assistant.\n\nSummary of the earlier conversation:\n${summary}` },
+      ...last,
+    ]
+
+    const result = await fitSparkPromptToContext({
+      prompt,
+      maxPromptTokens: Math.max(tokens(fitted), tokens([...system, ...turns[2], ...last])),
+      strategy: { type: "summarize", summarize: async () => summary },
+      modelName: "Spark Lite",
+    })
+
+    expect(result.prompt).toStrictEqual(fitted)
+    expect(result.warnings[1]).toStrictEqual({
+      type: "other",
+      message: `Removed 2 more messages (about ${tokens(turns[2])} tokens) to make room for the summary.`,
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import type {
+  LanguageModelV1CallWarning,
+  LanguageModelV1Message,
+  LanguageModelV1Prompt,
+} from "@ai-sdk/provider"
+import { convertToSparkChatMessages } from "./convert-to-spark-message"
+import { estimateSparkMessageTokens } from "./spark-token-estimation"
+
+/**
+ * Summarizes messages that are removed from the prompt.
+ *
+ * @returns The summary. It is added to the system message.
+ */
+export type SparkContextSummarizer = (options: {
+  messages: LanguageModelV1Prompt
+  abortSignal?: AbortSignal
+}) => PromiseLike<string>
+
+/**
+ * How a prompt that exceeds the context window is shortened. System messages
+ * and the last turn are always kept; a turn starts with a user message.
+ *
+ * - `drop-oldest`: removes the oldest turns until the prompt fits.
+ * - `keep-last`: keeps the last `turns` turns, then removes older ones if the prompt still does not fit.
+ * - `summarize`: replaces the oldest turns with a summary produced by `summarize`.
+ */
+export type SparkContextStrategy =
+  | { type: "drop-oldest" }
+  | { type: "keep-last", turns: number }
+  | { type: "summarize", summarize: SparkContextSummarizer }
+
+/**
+ * Settings of the context window management.
+ */
+export interface SparkContextManagementSettings {
+  /**
+   * Defaults to `drop-oldest`.
+   */
+  strategy?: SparkContextStrategy
+  /**
+   * Size of the context window in tokens. Defaults to the model catalog.
+   */
+  contextWindow?: number
+  /**
+   * Tokens kept free for the answer when `maxTokens` is not set.
+   * Defaults to the maximum output tokens of the model, up to 4096.
+   */
+  reservedOutputTokens?: number
+}
+
+function estimatePromptTokens(prompt: LanguageModelV1Prompt) {
+  return convertToSparkChatMessages(prompt)
+    .reduce((sum, message) => sum + estimateSparkMessageTokens(message), 0)
+}
+
+/**
+ * Shortens a prompt so that its estimated size fits into the token budget.
+ *
+ * @param options.prompt - The prompt.
+ * @param options.maxPromptTokens - The tokens available for the prompt.
+ * @param options.strategy - How the prompt is shortened.
+ * @param options.modelName - The model name, used in warnings.
+ * @param options.abortSignal - Passed to the summarizer.
+ * @returns The prompt and a warning for every truncation.
+ */
+export async function fitSparkPromptToContext({
+  prompt,
+  maxPromptTokens,
+  strategy = { type: "drop-oldest" },
+  modelName,
+  abortSignal,
+}: {
+  prompt: LanguageModelV1Prompt
+  maxPromptTokens: number
+  strategy?: SparkContextStrategy
+  modelName: string
+  abortSignal?: AbortSignal
+}): Promise<{ prompt: LanguageModelV1Prompt, warnings: LanguageModelV1CallWarning[] }> {
+  const warnings: LanguageModelV1CallWarning[] = []
+  if (estimatePromptTokens(prompt) <= maxPromptTokens) {
+    return { prompt, warnings }
+  }
+
+  // Leading system messages are kept; the rest is split into turns.
+  const firstTurnIndex = prompt.findIndex(message => message.role !== "system")
+  let system = firstTurnIndex < 0 ? prompt : prompt.slice(0, firstTurnIndex)
+  const turns: LanguageModelV1Message[][] = []
+  for (const message of firstTurnIndex < 0 ? [] : prompt.slice(firstTurnIndex)) {
+    if (message.role === "user" || turns.length === 0) {
+      turns.push([])
+    }
+    turns[turns.length - 1].push(message)
+  }
+
+  const removed: LanguageModelV1Message[] = []
+  const currentPrompt = () => [...system, ...turns.flat()]
+  const removeOldestTurn = () => removed.push(...turns.shift()!)
+
+  if (strategy.type === "keep-last") {
+    while (turns.length > Math.max(strategy.turns, 1)) {
+      removeOldestTurn()
+    }
+  }
+  while (turns.length > 1 && estimatePromptTokens(currentPrompt()) > maxPromptTokens) {
+    removeOldestTurn()
+  }
+
+  if (removed.length > 0) {
+    const removedTokens = estimatePromptTokens(removed)
+    const budget = `to fit the context window of ${modelName} (${maxPromptTokens} tokens for the prompt)`
+
+    if (strategy.type === "summarize") {
+      const summary = await strategy.summarize({ messages: removed, abortSignal })
+      system = appendToSystem(system, `Summary of the earlier conversation:\n${summary}`)
+      warnings.push({
+        type: "other",
+        message: `Summarized the first ${removed.length} messages (about ${removedTokens} tokens) ${budget}.`,
+      })
+
+      // The summary itself can push the prompt over the budget again.
+      const summarized = removed.length
+      while (turns.length > 1 && estimatePromptTokens(currentPrompt()) > maxPromptTokens) {
+        removeOldestTurn()
+      }
+      if (removed.length > summarized) {
+        warnings.push({
+          type: "other",
+          message: `Removed ${removed.length - summarized} more messages (about ${estimatePromptTokens(removed.slice(summarized))} tokens) to make room for the summary.`,
+        })
+      }
+    }
+    else {
+      warnings.push({
+        type: "other",
+        message: `Removed the first ${removed.length} messages (about ${removedTokens} tokens) ${budget}.`,
+      })
+    }
+  }
+
+  const tokens = estimatePromptTokens(currentPrompt())
+  if (tokens > maxPromptTokens) {
+    warnings.push({
+      type: "other",
+      message: `The prompt (about ${tokens} tokens) still exceeds the ${maxPromptTokens} tokens available in the context window of ${modelName}.`,
+    })
+  }
+
+  return { prompt: currentPrompt(), warnings }
+}
+
+function appendToSystem(system: LanguageModelV1Prompt, text: string): LanguageModelV1Prompt {
+  const last = system[system.length - 1]
+  if (last?.role === "system") {
+    return [...system.slice(0, -1), { ...last, content: `${last.content}\n\n${text}` }]
+  }
+  return [{ role: "system", content: text }]
+}
@@ -0,0 +1,65 @@
+/**
+ * Credentials for one model. Missing fields fall back to the provider settings.
+ */
+export interface SparkCredentials {
+  /**
+   * APIPassword of the HTTP API.
+   */
+  apiKey?: string
+  /**
+   * APPID of the WebSocket API.
+   */
+  appId?: string
+  /**
+   * APIKey of the WebSocket API.
+   */
+  appKey?: string
+  /**
+   * APISecret of the WebSocket API.
+   */
+  appSecret?: string
+}
+
+/**
+ * Resolves the credentials of a model at request time, e.g. from a secret store.
+ */
+export type SparkCredentialsResolver = (
+  modelId: string,
+) => PromiseLike<SparkCredentials | undefined> | SparkCredentials | undefined
+
+/**
+ * Builds the name of a per-model environment variable,
+ * e.g. `SPARK_API_KEY_4_0ULTRA` for `4.0Ultra`.
+ *
+ * @param prefix - The name of the provider-wide variable.
+ * @param modelId - The model ID.
+ * @returns The variable name.
+ */
+export function getSparkModelEnvironmentVariableName(
+  prefix: string,
+  modelId: string,
+): string {
+  const suffix = modelId.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_|_$/g, "")
+  return `${prefix}_${suffix}`
+}
+
+/**
+ * Derives a non-secret ID from a secret, e.g. to scope rate limits by API key
+ * without keeping the key itself as a scope name.
+ *
+ * @param secret - The secret.
+ * @returns A 53-bit hash of the secret in hex.
+ */
+export function getSparkCredentialId(secret: string): string {
+  // cyrb53, a fast non-cryptographic string hash.
+  let h1 = 0xDEADBEEF
+  let h2 = 0x41C6CE57
+  for (let i = 0; i < secret.length; i++) {
+    const char = secret.charCodeAt(i)
+    h1 = Math.imul(h1 ^ char, 2654435761)
+    h2 = Math.imul(h2 ^ char, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
@@ -0,0 +1,72 @@
+import { convertUint8ArrayToBase64 } from "@ai-sdk/provider-utils"
+import { describe, expect, it } from "vitest"
+import { SparkAPICallError } from "./spark-error"
+import { createSparkProvider } from "./spark-provider"
+
+function encodeEmbedding(values: number[]) {
+  const view = new DataView(new ArrayBuffer(values.length * 4))
+  values.forEach((value, index) => view.setFloat32(index * 4, value, true))
+  return convertUint8ArrayToBase64(new Uint8Array(view.buffer))
+}
+
+function decodeMessages(text: string) {
+  return JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(text), char => char.charCodeAt(0))))
+}
+
+/**
+ * Answers every request with the given response bodies, in order.
+ */
+function createEmbeddingFetch(bodies: unknown[]) {
+  const requests: Array<{
+    url: string
+    body: { parameter: { emb: { domain: string } }, payload: { messages: { text: string } } }
+  }> = []
+  const fetch = async (url: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({ url: String(url), body: JSON.parse(init!.body as string) })
+    return new Response(JSON.stringify(bodies[requests.length - 1]))
+  }
+  return { fetch, requests }
+}
+
+const credentials = { appId: "app", appKey: "key", appSecret: "secret" }
+
+describe("SparkEmbeddingModel", () => {
+  it("sends each value as a signed request and decodes the float32 vectors", async () => {
+    const { fetch, requests } = createEmbeddingFetch([
+      { header: { code: 0, message: "success", sid: "sid-1" }, payload: { feature: { text: encodeEmbedding([1, -0.5]) } } },
+      { header: { code: 0, message: "success", sid: "sid-2" }, payload: { feature: { text: encodeEmbedding([0.25, 2]) } } },
+    ])
+    const model = createSparkProvider({ ...credentials, fetch }).textEmbeddingModel("embedding")
+
+    const { embeddings } = await model.doEmbed({ values: ["first", "second"] })
+
+    expect(embeddings).toStrictEqual([[1, -0.5], [0.25, 2]])
+    expect(new URL(requests[0].url).searchParams.get("authorization")).not.toBeNull()
+    expect(requests[0].body).toMatchObject({
+      header: { app_id: "app", status: 3 },
+      parameter: { emb: { domain: "para", feature: { encoding: "utf8" } } },
+    })
+    expect(decodeMessages(requests[1].body.payload.messages.text))
+      .toStrictEqual({ messages: [{ content: "second", role: "user" }] })
+  })
+
+  it("uses the query domain for search queries", async () => {
+    const { fetch, requests } = createEmbeddingFetch([
+      { header: { code: 0, message: "success" }, payload: { feature: { text: encodeEmbedding([1]) } } },
+    ])
+    const model = createSparkProvider({ ...credentials, fetch }).textEmbeddingModel("embedding", { domain: "query" })
+
+    await model.doEmbed({ values: ["query"] })
+
+    expect(requests[0].body.parameter.emb.domain).toBe("query")
+  })
+
+  it("throws the error reported in the response header", async () => {
+    const { fetch } = createEmbeddingFetch([{ header: { code: 11202, message: "QPS limit", sid: "sid-1" } }])
+    const model = createSparkProvider({ ...credentials, fetch }).textEmbeddingModel("embedding")
+
+    await expect(model.doEmbed({ values: ["value"] })).rejects.toSatisfy(error =>
+      SparkAPICallError.isInstance(error) && error.code === 11202 && error.sid === "sid-1",
+    )
+  })
+})
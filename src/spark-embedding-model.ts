@@ -0,0 +1,262 @@
+import type {
+  APICallError,
+  EmbeddingModelV1,
+} from "@ai-sdk/provider"
+import type {
+  FetchFunction,
+  ResponseHandler,
+} from "@ai-sdk/provider-utils"
+import type { SparkAppCredentials } from "./spark-auth"
+import type { SparkCredentials } from "./spark-credentials"
+import type {
+  SparkEmbeddingModelId,
+  SparkEmbeddingSettings,
+} from "./spark-embedding-settings"
+import type { SparkErrorStructure } from "./spark-error"
+import type { SparkKeyPool } from "./spark-key-pool"
+import type { SparkAcquireRateLimitSlot } from "./spark-rate-limiter"
+import type { SparkRequestConfig } from "./spark-request"
+import type { SparkRetrySettings } from "./spark-retry"
+import {
+  InvalidResponseDataError,
+  TooManyEmbeddingValuesForCallError,
+} from "@ai-sdk/provider"
+import {
+  combineHeaders,
+  convertBase64ToUint8Array,
+  convertUint8ArrayToBase64,
+  createJsonResponseHandler,
+  postJsonToApi,
+} from "@ai-sdk/provider-utils"
+import { z } from "zod"
+import { createSparkAuthUrl } from "./spark-auth"
+import {
+  createSparkAPICallError,
+  createSparkFailedResponseHandler,
+  defaultSparkErrorStructure,
+} from "./spark-error"
+import { sendSparkRequest } from "./spark-request"
+
+/**
+ * Configuration for the Spark embedding model.
+ */
+export interface SparkEmbeddingConfig {
+  provider: string
+  /**
+   * Returns the unsigned endpoint URL.
+   */
+  url: (options: { modelId: string }) => string
+  /**
+   * Resolves the APPID, APIKey and APISecret used to sign requests.
+   */
+  credentials: (options: {
+    modelId: string
+    credentials?: SparkCredentials
+  }) => PromiseLike<SparkAppCredentials>
+  headers: () => Record<string, string | undefined>
+  fetch?: FetchFunction
+  errorStructure?: SparkErrorStructure<any>
+  retry?: SparkRetrySettings
+  acquireRateLimitSlot?: SparkAcquireRateLimitSlot
+  keyPool?: SparkKeyPool
+  resolveCredentials?: SparkRequestConfig["resolveCredentials"]
+}
+
+// limited version of the schema, focussed on what is needed for the implementation
+// this approach limits breakages when the API changes and increases efficiency
+const SparkEmbeddingResponseSchema = z.object({
+  header: z.object({
+    code: z.number(),
+    message: z.string(),
+    sid: z.string().nullish(),
+  }),
+  payload: z
+    .object({
+      feature: z.object({
+        text: z.string(),
+      }),
+    })
+    .nullish(),
+})
+
+/**
+ * Spark text embedding model.
+ *
+ * Spark embeds one text per signed request; values of a call are sent as
+ * separate requests, each with the provider's retry policy, key pool and rate limiter.
+ */
+export class SparkEmbeddingModel implements EmbeddingModelV1<string> {
+  readonly specificationVersion = "v1"
+
+  readonly modelId: SparkEmbeddingModelId
+  readonly settings: SparkEmbeddingSettings
+
+  private readonly config: SparkEmbeddingConfig
+  private readonly failedResponseHandler: ResponseHandler<APICallError>
+
+  constructor(
+    modelId: SparkEmbeddingModelId,
+    settings: SparkEmbeddingSettings,
+    config: SparkEmbeddingConfig,
+  ) {
+    this.modelId = modelId
+    this.settings = settings
+    this.config = config
+    this.failedResponseHandler = createSparkFailedResponseHandler(
+      config.errorStructure ?? defaultSparkErrorStructure,
+    )
+  }
+
+  get provider(): string {
+    return this.config.provider
+  }
+
+  get maxEmbeddingsPerCall(): number {
+    return this.settings.maxEmbeddingsPerCall ?? 16
+  }
+
+  get supportsParallelCalls(): boolean {
+    return this.settings.supportsParallelCalls ?? true
+  }
+
+  async doEmbed({
+    values,
+    abortSignal,
+    headers,
+  }: Parameters<EmbeddingModelV1<string>["doEmbed"]>[0]): Promise<
+    Awaited<ReturnType<EmbeddingModelV1<string>["doEmbed"]>>
+  > {
+    if (values.length > this.maxEmbeddingsPerCall) {
+      throw new TooManyEmbeddingValuesForCallError({
+        provider: this.provider,
+        modelId: this.modelId,
+        maxEmbeddingsPerCall: this.maxEmbeddingsPerCall,
+        values,
+      })
+    }
+
+    const responses = await Promise.all(
+      values.map(value => this.embed(value, { abortSignal, headers })),
+    )
+
+    return {
+      embeddings: responses.map(response => response.embedding),
+      rawResponse: { headers: responses.at(-1)?.responseHeaders },
+    }
+  }
+
+  /**
+   * Embeds a single value.
+   */
+  private async embed(
+    value: string,
+    {
+      abortSignal,
+      headers,
+    }: {
+      abortSignal: AbortSignal | undefined
+      headers: Record<string, string | undefined> | undefined
+    },
+  ) {
+    const response = await sendSparkRequest(
+      async (credentials) => {
+        const { appId, apiKey, apiSecret } = await this.config.credentials({
+          modelId: this.modelId,
+          credentials,
+        })
+        const url = await createSparkAuthUrl({
+          url: this.config.url({ modelId: this.modelId }),
+          apiKey,
+          apiSecret,
+          method: "POST",
+        })
+        const requestBody = convertToSparkEmbeddingRequest({
+          appId,
+          domain: this.settings.domain ?? "para",
+          value,
+        })
+
+        const response = await postJsonToApi({
+          url,
+          headers: combineHeaders(this.config.headers(), headers),
+          body: requestBody,
+          failedResponseHandler: this.failedResponseHandler,
+          successfulResponseHandler: createJsonResponseHandler(
+            SparkEmbeddingResponseSchema,
+          ),
+          abortSignal,
+          fetch: this.config.fetch,
+        })
+
+        // Spark reports failures in the response header with HTTP status 200.
+        const sparkError = createSparkAPICallError({
+          data: response.value.header,
+          url,
+          requestBodyValues: requestBody,
+          responseHeaders: response.responseHeaders,
+        })
+        if (sparkError != null) {
+          throw sparkError
+        }
+        return response
+      },
+      { modelId: this.modelId, config: this.config, abortSignal },
+    )
+
+    const text = response.value.payload?.feature.text
+    if (text == null) {
+      throw new InvalidResponseDataError({
+        data: response.value,
+        message: "Spark returned no embedding.",
+      })
+    }
+
+    return {
+      embedding: decodeSparkEmbedding(text),
+      responseHeaders: response.responseHeaders,
+    }
+  }
+}
+
+/**
+ * Builds the request body for one value. The text is sent as base64 encoded
+ * JSON in the chat message format.
+ */
+function convertToSparkEmbeddingRequest({
+  appId,
+  domain,
+  value,
+}: {
+  appId: string
+  domain: "query" | "para"
+  value: string
+}) {
+  const messages = JSON.stringify({ messages: [{ content: value, role: "user" }] })
+  return {
+    header: { app_id: appId, status: 3 },
+    parameter: {
+      emb: {
+        domain,
+        feature: { encoding: "utf8" },
+      },
+    },
+    payload: {
+      messages: {
+        text: convertUint8ArrayToBase64(new TextEncoder().encode(messages)),
+      },
+    },
+  }
+}
+
+/**
+ * Decodes a base64 encoded vector of little-endian float32 values.
+ */
+function decodeSparkEmbedding(text: string): number[] {
+  const bytes = convertBase64ToUint8Array(text)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const embedding: number[] = []
+  for (let offset = 0; offset + 4 <= bytes.byteLength; offset += 4) {
+    embedding.push(view.getFloat32(offset, true))
+  }
+  return embedding
+}
@@ -0,0 +1,21 @@
+// https://www.xfyun.cn/doc/spark/Embedding_api.html
+export type SparkEmbeddingModelId = 'embedding' | (string & {});
+
+export interface SparkEmbeddingSettings {
+  /**
+Embedding domain: `query` for search queries, `para` (default) for the
+passages that are searched.
+*/
+  domain?: 'query' | 'para';
+
+  /**
+Maximum number of values embedded per `doEmbed` call. Spark embeds one text per
+request, so each call sends up to this many requests. Defaults to 16.
+*/
+  maxEmbeddingsPerCall?: number;
+
+  /**
+Whether `embedMany` may run several calls in parallel. Defaults to true.
+*/
+  supportsParallelCalls?: boolean;
+}
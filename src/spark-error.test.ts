@@ -0,0 +1,98 @@
+import { APICallError } from "@ai-sdk/provider"
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import {
+  createSparkJsonResponseHandler,
+  getSparkErrorCategory,
+  getSparkErrorInfo,
+  SparkAPICallError,
+  sparkFailedResponseHandler,
+} from "./spark-error"
+
+const url = "https://spark-api-open.xf-yun.com/v1/chat/completions"
+
+describe("getSparkErrorCategory", () => {
+  it.each([
+    [10013, undefined, "content-filter"],
+    [10907, undefined, "context-length"],
+    [11200, undefined, "quota"],
+    [11202, undefined, "rate-limit"],
+    [10016, undefined, "auth"],
+    [10012, undefined, "server"],
+    [99999, 200, "unknown"],
+    [99999, undefined, "unknown"],
+    [99999, 401, "auth"],
+    [99999, 503, "server"],
+    [undefined, 429, "rate-limit"],
+    [undefined, 400, "invalid-request"],
+  ] as const)("maps code %s with status %s to %s", (code, statusCode, category) => {
+    expect(getSparkErrorCategory(code, statusCode)).toBe(category)
+  })
+})
+
+describe("getSparkErrorInfo", () => {
+  it("reads Spark error bodies", () => {
+    expect(getSparkErrorInfo({ code: 11202, message: "QPS limit", sid: "sid-1" })).toStrictEqual({
+      code: 11202,
+      message: "QPS limit",
+      sid: "sid-1",
+      category: "rate-limit",
+      isRetryable: true,
+    })
+  })
+
+  it("does not retry unknown codes", () => {
+    expect(getSparkErrorInfo({ code: 12345, message: "New error" })).toMatchObject({
+      category: "unknown",
+      isRetryable: false,
+    })
+  })
+
+  it("reads gateway error bodies with a string code", () => {
+    expect(getSparkErrorInfo({ error: { message: "Bad key", code: "10016" } }))
+      .toMatchObject({ code: 10016, category: "auth", sid: undefined })
+  })
+
+  it("ignores successful bodies and other values", () => {
+    expect(getSparkErrorInfo({ code: 0, message: "Success" })).toBeUndefined()
+    expect(getSparkErrorInfo(new Error("network"))).toBeUndefined()
+  })
+})
+
+describe("createSparkJsonResponseHandler", () => {
+  const handler = createSparkJsonResponseHandler(z.object({ id: z.string() }))
+
+  it("returns successful responses", async () => {
+    const response = new Response(JSON.stringify({ code: 0, id: "cha-1" }))
+
+    await expect(handler({ url, requestBodyValues: {}, response })).resolves.toMatchObject({ value: { id: "cha-1" } })
+  })
+
+  it("throws Spark errors returned with a 200 status", async () => {
+    const response = new Response(JSON.stringify({ code: 10907, message: "Too many tokens", sid: "sid-1" }))
+
+    const error = await Promise.resolve(handler({ url, requestBodyValues: {}, response })).catch((error: unknown) => error)
+
+    expect(SparkAPICallError.isInstance(error)).toBe(true)
+    expect(APICallError.isInstance(error)).toBe(true)
+    expect(error).toMatchObject({
+      message: "Too many tokens (code 10907, sid sid-1)",
+      statusCode: 200,
+      code: 10907,
+      sid: "sid-1",
+      category: "context-length",
+      isRetryable: false,
+    })
+  })
+})
+
+describe("sparkFailedResponseHandler", () => {
+  it("creates Spark API call errors for error statuses", async () => {
+    const response = new Response(JSON.stringify({ code: 11203, message: "Busy", sid: "sid-2" }), { status: 429 })
+
+    const { value } = await sparkFailedResponseHandler({ url, requestBodyValues: {}, response })
+
+    expect(SparkAPICallError.isInstance(value)).toBe(true)
+    expect(value).toMatchObject({ statusCode: 429, code: 11203, sid: "sid-2", category: "rate-limit", isRetryable: true })
+  })
+})
@@ -1,17 +1,35 @@
+import type { ResponseHandler } from "@ai-sdk/provider-utils"
 import type { ZodSchema } from "zod"
-import { createJsonErrorResponseHandler } from "@ai-sdk/provider-utils"
+import { APICallError } from "@ai-sdk/provider"
+import {
+  createJsonErrorResponseHandler,
+  extractResponseHeaders,
+  safeParseJSON,
+  safeValidateTypes,
+} from "@ai-sdk/provider-utils"
 import { z } from "zod"
 
 /**
  * Schema defining the structure of a Spark error response.
+ *
+ * Spark answers with a numeric `code`, a `message` and a session id (`sid`).
+ * Gateway errors of the OpenAI-compatible endpoint use a nested `error` object instead.
  */
-const sparkErrorDataSchema = z.object({
-  object: z.literal("error"),
-  message: z.string(),
-  type: z.string(),
-  param: z.string().nullable(),
-  code: z.string().nullable(),
-})
+const sparkErrorDataSchema = z.union([
+  z.object({
+    code: z.union([z.number(), z.string()]),
+    message: z.string(),
+    sid: z.string().nullish(),
+  }),
+  z.object({
+    error: z.object({
+      message: z.string(),
+      type: z.string().nullish(),
+      code: z.union([z.number(), z.string()]).nullish(),
+    }),
+    sid: z.string().nullish(),
+  }),
+])
 
 export type SparkErrorData = z.infer<typeof sparkErrorDataSchema>
 
@@ -33,13 +51,365 @@ export interface SparkErrorStructure<T> {
   isRetryable?: (response: Response, error?: T) => boolean
 }
 
-// Create a handler for failed responses using the defined schema.
-export const sparkFailedResponseHandler = createJsonErrorResponseHandler({
-  errorSchema: sparkErrorDataSchema,
-  errorToMessage: error => error.message,
-})
+/**
+ * Category of a Spark error.
+ */
+export type SparkErrorCategory =
+  | "auth"
+  | "quota"
+  | "rate-limit"
+  | "content-filter"
+  | "context-length"
+  | "invalid-request"
+  | "server"
+  | "unknown"
+
+// https://www.xfyun.cn/doc/spark/Web.html#_3-%E9%94%99%E8%AF%AF%E7%A0%81
+export const sparkErrorCatalog: Record<
+  number,
+  { category: SparkErrorCategory, description: string }
+> = {
+  401: { category: "auth", description: "Authentication failed" },
+  403: { category: "auth", description: "Signature or IP whitelist check failed" },
+  10000: { category: "server", description: "Failed to upgrade to WebSocket" },
+  10001: { category: "server", description: "Failed to read the user message" },
+  10002: { category: "server", description: "Failed to send the message to the user" },
+  10003: { category: "invalid-request", description: "Invalid user message format" },
+  10004: { category: "invalid-request", description: "User data schema error" },
+  10005: { category: "invalid-request", description: "Failed to parse the APPID" },
+  10006: { category: "invalid-request", description: "Invalid user message content" },
+  10007: { category: "rate-limit", description: "The previous request of this user is still being processed" },
+  10008: { category: "server", description: "Insufficient service capacity" },
+  10009: { category: "server", description: "Failed to reach the engine" },
+  10010: { category: "server", description: "Failed to receive the engine response" },
+  10011: { category: "server", description: "Failed to read the engine response" },
+  10012: { category: "server", description: "Internal engine error" },
+  10013: { category: "content-filter", description: "Input content was rejected by moderation" },
+  10014: { category: "content-filter", description: "Output content was rejected by moderation" },
+  10015: { category: "auth", description: "APPID is on the blacklist" },
+  10016: { category: "auth", description: "APPID authorization failed" },
+  10017: { category: "server", description: "Failed to clear the history" },
+  10019: { category: "content-filter", description: "The session may involve sensitive content" },
+  10110: { category: "server", description: "Service busy" },
+  10163: { category: "invalid-request", description: "Invalid engine request parameters" },
+  10222: { category: "server", description: "Engine network error" },
+  10223: { category: "server", description: "Engine unavailable" },
+  10907: { category: "context-length", description: "Token count exceeds the model limit" },
+  11200: { category: "quota", description: "Function not authorized or quota exceeded" },
+  11201: { category: "quota", description: "Daily request limit exceeded" },
+  11202: { category: "rate-limit", description: "QPS limit exceeded" },
+  11203: { category: "rate-limit", description: "Concurrency limit exceeded" },
+}
+
+const retryableSparkErrorCategories: ReadonlySet<SparkErrorCategory> = new Set([
+  "rate-limit",
+  "server",
+])
+
+/**
+ * Normalized information about a Spark error.
+ */
+export interface SparkErrorInfo {
+  code: number | undefined
+  message: string
+  sid: string | undefined
+  category: SparkErrorCategory
+  isRetryable: boolean
+}
+
+/**
+ * Maps a Spark error code (or an HTTP status code) to its category. Codes that
+ * are not in the catalog are `unknown` and not retried, unless the HTTP status
+ * marks a server error.
+ *
+ * @param code - The Spark error code.
+ * @param statusCode - The HTTP status code, used when the code is unknown.
+ * @returns The error category.
+ */
+export function getSparkErrorCategory(
+  code: number | undefined,
+  statusCode?: number,
+): SparkErrorCategory {
+  const known = code != null ? sparkErrorCatalog[code] : undefined
+  if (known != null) {
+    return known.category
+  }
+  switch (statusCode) {
+    case 400:
+    case 404:
+    case 422:
+      return "invalid-request"
+    case 401:
+    case 403:
+      return "auth"
+    case 429:
+      return "rate-limit"
+    default:
+      return statusCode != null && statusCode >= 500 ? "server" : "unknown"
+  }
+}
+
+/**
+ * Extracts normalized error information from Spark error data or an `APICallError` carrying it.
+ *
+ * @param error - Spark error data, an `APICallError`, or any other value.
+ * @param statusCode - The HTTP status code, used to categorize unknown codes.
+ * @returns The error information, or undefined when the value is not a Spark error.
+ */
+export function getSparkErrorInfo(
+  error: unknown,
+  statusCode = APICallError.isInstance(error) ? error.statusCode : undefined,
+): SparkErrorInfo | undefined {
+  const data = APICallError.isInstance(error) ? error.data : error
+
+  const parsed = sparkErrorDataSchema.safeParse(data)
+  if (!parsed.success) {
+    return undefined
+  }
+
+  const value = parsed.data
+  const rawCode = "error" in value ? value.error.code : value.code
+  const numericCode = rawCode != null ? Number(rawCode) : Number.NaN
+  const code = Number.isNaN(numericCode) ? undefined : numericCode
+
+  // A zero code marks a successful response.
+  if (code === 0) {
+    return undefined
+  }
+
+  const category = getSparkErrorCategory(code, statusCode)
+  return {
+    code,
+    message: "error" in value ? value.error.message : value.message,
+    sid: value.sid ?? undefined,
+    category,
+    isRetryable: retryableSparkErrorCategories.has(category),
+  }
+}
+
+/**
+ * A moderation rejection: the Spark code and the side of the conversation that was flagged.
+ */
+export type SparkContentFilter = {
+  code: number
+  flagged: "input" | "output"
+}
+
+/**
+ * Recognizes moderation rejections (codes 10013, 10014 and 10019).
+ *
+ * @param error - Spark error data, an `APICallError` carrying it, or any other value.
+ * @param hasOutput - Whether part of the reply was already received. Code 10019
+ *                    does not name the flagged side and is attributed to the output
+ *                    when there is some, and to the input otherwise.
+ * @returns The rejection, or undefined when the value is not a moderation rejection.
+ */
+export function getSparkContentFilter(
+  error: unknown,
+  hasOutput = false,
+): SparkContentFilter | undefined {
+  const info = getSparkErrorInfo(error)
+  if (info?.category !== "content-filter" || info.code == null) {
+    return undefined
+  }
+  switch (info.code) {
+    case 10013:
+      return { code: info.code, flagged: "input" }
+    case 10014:
+      return { code: info.code, flagged: "output" }
+    default:
+      return { code: info.code, flagged: hasOutput ? "output" : "input" }
+  }
+}
+
+const sparkAPICallErrorMarker = "spark.error.SparkAPICallError"
+const sparkAPICallErrorSymbol = Symbol.for(sparkAPICallErrorMarker)
+
+/**
+ * An `APICallError` for a Spark error response, with its code, session id and category.
+ */
+export class SparkAPICallError extends APICallError {
+  private readonly [sparkAPICallErrorSymbol] = true
+
+  /**
+   * The Spark error code, if the response has one.
+   */
+  readonly code: number | undefined
+  /**
+   * The Spark session id (`sid`). Include it when reporting issues to iFlytek.
+   */
+  readonly sid: string | undefined
+  /**
+   * The category of the error.
+   */
+  readonly category: SparkErrorCategory
+
+  constructor({
+    info,
+    ...options
+  }: ConstructorParameters<typeof APICallError>[0] & { info: SparkErrorInfo }) {
+    super({ ...options, isRetryable: info.isRetryable })
+    this.code = info.code
+    this.sid = info.sid
+    this.category = info.category
+  }
+
+  static isInstance(error: unknown): error is SparkAPICallError {
+    return APICallError.hasMarker(error, sparkAPICallErrorMarker)
+  }
+}
+
+/**
+ * Formats a Spark error as a message that contains its code and session id.
+ */
+function formatSparkErrorMessage(info: SparkErrorInfo) {
+  const details = [
+    info.code != null ? `code ${info.code}` : undefined,
+    info.sid != null ? `sid ${info.sid}` : undefined,
+  ].filter(Boolean)
+  return details.length > 0 ? `${info.message} (${details.join(", ")})` : info.message
+}
+
+/**
+ * Creates an `APICallError` for Spark error data that was received outside of
+ * an HTTP error status, e.g. in an SSE chunk, a WebSocket frame or a 200 response body.
+ *
+ * @returns The error, or undefined when the data is not a Spark error.
+ */
+export function createSparkAPICallError({
+  data,
+  url,
+  requestBodyValues,
+  statusCode,
+  responseHeaders,
+  responseBody,
+}: {
+  data: unknown
+  url: string
+  requestBodyValues: unknown
+  statusCode?: number
+  responseHeaders?: Record<string, string>
+  responseBody?: string
+}): SparkAPICallError | undefined {
+  const info = getSparkErrorInfo(data, statusCode)
+  if (info == null) {
+    return undefined
+  }
+  return new SparkAPICallError({
+    message: formatSparkErrorMessage(info),
+    url,
+    requestBodyValues,
+    statusCode,
+    responseHeaders,
+    responseBody,
+    data,
+    info,
+  })
+}
+
+/**
+ * Creates a JSON response handler that also recognizes Spark errors returned
+ * with a successful HTTP status (a non-zero `code` in the body).
+ *
+ * @param responseSchema - Schema of a successful response.
+ * @returns The response handler.
+ */
+export function createSparkJsonResponseHandler<T>(
+  responseSchema: ZodSchema<T>,
+): ResponseHandler<T> {
+  return async ({ response, url, requestBodyValues }) => {
+    const responseBody = await response.text()
+    const responseHeaders = extractResponseHeaders(response)
+
+    const parsed = safeParseJSON({ text: responseBody })
+    const sparkError = parsed.success
+      ? createSparkAPICallError({
+        data: parsed.value,
+        url,
+        requestBodyValues,
+        statusCode: response.status,
+        responseHeaders,
+        responseBody,
+      })
+      : undefined
+    if (sparkError != null) {
+      throw sparkError
+    }
+
+    const validated = parsed.success
+      ? safeValidateTypes({ value: parsed.value, schema: responseSchema })
+      : parsed
+    if (!validated.success) {
+      throw new APICallError({
+        message: "Invalid JSON response",
+        cause: validated.error,
+        statusCode: response.status,
+        responseHeaders,
+        responseBody,
+        url,
+        requestBodyValues,
+      })
+    }
+
+    return { responseHeaders, value: validated.value }
+  }
+}
 
 export const defaultSparkErrorStructure: SparkErrorStructure<SparkErrorData> = {
   errorSchema: sparkErrorDataSchema,
-  errorToMessage: data => data.message,
-}
\ No newline at end of file
+  errorToMessage: data => {
+    const info = getSparkErrorInfo(data)
+    return info != null
+      ? formatSparkErrorMessage(info)
+      : "error" in data ? data.error.message : data.message
+  },
+  isRetryable: (response, data) => {
+    const info = data != null ? getSparkErrorInfo(data, response.status) : undefined
+    if (info != null) {
+      return info.isRetryable
+    }
+    return response.status === 408
+      || response.status === 409
+      || response.status === 429
+      || response.status >= 500
+  },
+}
+
+/**
+ * Creates a handler for failed responses. Responses with a Spark error body
+ * become a `SparkAPICallError`.
+ *
+ * @param errorStructure - Parses the error body and decides its retryability.
+ * @returns The response handler.
+ */
+export function createSparkFailedResponseHandler<T>(
+  errorStructure: SparkErrorStructure<T>,
+): ResponseHandler<APICallError> {
+  const jsonErrorResponseHandler = createJsonErrorResponseHandler(errorStructure)
+
+  return async (options) => {
+    const result = await jsonErrorResponseHandler(options)
+    const error = result.value
+    const info = getSparkErrorInfo(error)
+    return info == null
+      ? result
+      : {
+          ...result,
+          value: new SparkAPICallError({
+            message: error.message,
+            url: error.url,
+            requestBodyValues: error.requestBodyValues,
+            statusCode: error.statusCode,
+            responseHeaders: error.responseHeaders,
+            responseBody: error.responseBody,
+            data: error.data,
+            info: { ...info, isRetryable: error.isRetryable },
+          }),
+        }
+  }
+}
+
+// Create a handler for failed responses using the defined schema.
+export const sparkFailedResponseHandler = createSparkFailedResponseHandler(
+  defaultSparkErrorStructure,
+)
@@ -0,0 +1,284 @@
+import type {
+  LanguageModelV1FilePart,
+  LanguageModelV1Prompt,
+} from "@ai-sdk/provider"
+import type { FetchFunction } from "@ai-sdk/provider-utils"
+import type { SparkChatDocFile } from "./spark-chatdoc"
+import { APICallError, InvalidPromptError } from "@ai-sdk/provider"
+import { convertBase64ToUint8Array } from "@ai-sdk/provider-utils"
+
+/**
+ * How a file part is sent to Spark.
+ *
+ * - `inline`: the file is decoded as UTF-8 and inlined as text.
+ * - `chatdoc`: the file is uploaded to document Q&A (ChatDoc) and the request is answered from it.
+ * - `auto`: small text-like files are inlined, everything else goes to ChatDoc.
+ */
+export type SparkFileMode = "inline" | "chatdoc" | "auto"
+
+/**
+ * Renders an inlined file as the text that is sent to the model.
+ */
+export type SparkFileTemplate = (file: {
+  text: string
+  mimeType: string
+  filename?: string
+}) => string
+
+/**
+ * Settings for file content parts.
+ */
+export interface SparkFileSettings {
+  /**
+   * Defaults to `auto`. Can be overridden per part with `providerMetadata.spark.fileMode`.
+   */
+  mode?: SparkFileMode
+  /**
+   * Renders inlined files. Defaults to `defaultSparkFileTemplate`.
+   */
+  template?: SparkFileTemplate
+  /**
+   * Largest text file that `auto` inlines, in bytes. Defaults to 32768.
+   */
+  maxInlineBytes?: number
+  /**
+   * Polling of the ChatDoc processing status.
+   */
+  chatDoc?: {
+    /**
+     * Defaults to 1000.
+     */
+    pollIntervalMs?: number
+    /**
+     * Defaults to 120000.
+     */
+    timeoutMs?: number
+  }
+}
+
+/**
+ * A document that is answered from by ChatDoc: either a file to upload or an
+ * already uploaded file ID.
+ */
+export type SparkChatDocDocument = SparkChatDocFile | { fileId: string }
+
+/**
+ * Wraps the file content in a `<file>` element with its name or media type.
+ */
+export const defaultSparkFileTemplate: SparkFileTemplate = ({ text, mimeType, filename }) =>
+  `<file name="${filename ?? mimeType}">\n${text}\n</file>\n`
+
+const textMimeTypePattern = /^text\/|^application\/(?:json|xml|yaml|x-yaml|csv|x-ndjson)$|\+(?:json|xml)$/
+
+/**
+ * Whether a file can be inlined as text.
+ */
+function isTextMimeType(mimeType: string) {
+  return textMimeTypePattern.test(mimeType.split(";")[0].trim().toLowerCase())
+}
+
+/**
+ * Resolves the file parts of a prompt. Inlined files become text parts;
+ * ChatDoc files are removed from the prompt and returned as documents.
+ *
+ * Each part can set `providerMetadata.spark.fileMode`, `filename`
+ * (name used in the template and for the upload) and `fileId`
+ * (an existing ChatDoc upload, which skips the upload).
+ *
+ * @param options.prompt - The prompt.
+ * @param options.settings - The file settings of the model.
+ * @param options.fetch - Fetch implementation used to download URL files that are inlined.
+ * @param options.abortSignal - Cancels downloads.
+ * @returns The rewritten prompt and the documents for ChatDoc.
+ */
+export async function prepareSparkFilePrompt({
+  prompt,
+  settings = {},
+  fetch = globalThis.fetch,
+  abortSignal,
+}: {
+  prompt: LanguageModelV1Prompt
+  settings?: SparkFileSettings
+  fetch?: FetchFunction
+  abortSignal?: AbortSignal
+}): Promise<{
+    prompt: LanguageModelV1Prompt
+    documents: SparkChatDocDocument[]
+  }> {
+  const documents: SparkChatDocDocument[] = []
+
+  const messages: LanguageModelV1Prompt = []
+  for (const message of prompt) {
+    if (message.role !== "user" || !message.content.some(part => part.type === "file")) {
+      messages.push(message)
+      continue
+    }
+
+    const content: typeof message.content = []
+    for (const part of message.content) {
+      if (part.type !== "file") {
+        content.push(part)
+        continue
+      }
+
+      let resolution = resolveFilePart(part, { prompt, settings })
+      if (resolution.type === "load") {
+        const data = await loadFile(part, { fetch, abortSignal })
+        resolution = resolveFilePart(part, { prompt, settings, data })
+      }
+
+      if (resolution.type === "document") {
+        documents.push(resolution.document)
+      }
+      else if (resolution.type === "text") {
+        content.push({ type: "text", text: resolution.text })
+      }
+    }
+
+    messages.push({ ...message, content })
+  }
+
+  return { prompt: messages, documents }
+}
+
+/**
+ * Inlines the file parts of a prompt like `prepareSparkFilePrompt`, without
+ * downloading files. ChatDoc files and URL files are removed.
+ *
+ * @param prompt - The prompt.
+ * @param settings - The file settings of the model.
+ * @returns The prompt as it is sent in the chat messages.
+ */
+export function inlineSparkFilePrompt(
+  prompt: LanguageModelV1Prompt,
+  settings: SparkFileSettings = {},
+): LanguageModelV1Prompt {
+  return prompt.map((message) => {
+    if (message.role !== "user" || !message.content.some(part => part.type === "file")) {
+      return message
+    }
+    return {
+      ...message,
+      content: message.content.flatMap((part) => {
+        if (part.type !== "file") {
+          return [part]
+        }
+        const resolution = resolveFilePart(part, {
+          prompt,
+          settings,
+          data: part.data instanceof URL ? undefined : convertBase64ToUint8Array(part.data),
+        })
+        return resolution.type === "text" ? [{ type: "text" as const, text: resolution.text }] : []
+      }),
+    }
+  })
+}
+
+/**
+ * Decides how a file part is sent. Text files that may be inlined need their
+ * content; without `data`, `load` is returned.
+ */
+function resolveFilePart(
+  part: LanguageModelV1FilePart,
+  {
+    prompt,
+    settings,
+    data,
+  }: {
+    prompt: LanguageModelV1Prompt
+    settings: SparkFileSettings
+    data?: Uint8Array
+  },
+):
+  | { type: "text", text: string }
+  | { type: "document", document: SparkChatDocDocument }
+  | { type: "load" } {
+  const {
+    mode: defaultMode = "auto",
+    template = defaultSparkFileTemplate,
+    maxInlineBytes = 32 * 1024,
+  } = settings
+
+  const metadata = part.providerMetadata?.spark ?? {}
+  const mode = (metadata.fileMode as SparkFileMode | undefined) ?? defaultMode
+  const filename = metadata.filename as string | undefined
+  const fileId = metadata.fileId as string | undefined
+
+  if (mode === "chatdoc" || fileId != null) {
+    return { type: "document", document: fileId != null ? { fileId } : toChatDocFile(part, filename) }
+  }
+
+  if (!isTextMimeType(part.mimeType)) {
+    if (mode === "inline") {
+      throw new InvalidPromptError({
+        prompt,
+        message: `Files of type ${part.mimeType} cannot be inlined as text. Use the 'chatdoc' file mode.`,
+      })
+    }
+    return { type: "document", document: toChatDocFile(part, filename) }
+  }
+
+  if (data == null) {
+    return { type: "load" }
+  }
+  if (mode === "auto" && data.byteLength > maxInlineBytes) {
+    return {
+      type: "document",
+      document: { data, mimeType: part.mimeType, filename: filename ?? getDefaultFilename(part) },
+    }
+  }
+
+  return {
+    type: "text",
+    text: template({ text: new TextDecoder().decode(data), mimeType: part.mimeType, filename }),
+  }
+}
+
+function toChatDocFile(part: LanguageModelV1FilePart, filename: string | undefined): SparkChatDocFile {
+  return {
+    data: part.data instanceof URL ? part.data : convertBase64ToUint8Array(part.data),
+    mimeType: part.mimeType,
+    filename: filename ?? getDefaultFilename(part),
+  }
+}
+
+// ChatDoc detects the document type from the file name.
+const fileExtensions: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/msword": "doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/plain": "txt",
+  "text/markdown": "md",
+}
+
+function getDefaultFilename(part: LanguageModelV1FilePart) {
+  if (part.data instanceof URL) {
+    const name = part.data.pathname.split("/").pop()
+    if (name) {
+      return decodeURIComponent(name)
+    }
+  }
+  return `document.${fileExtensions[part.mimeType.split(";")[0].trim().toLowerCase()] ?? "bin"}`
+}
+
+async function loadFile(
+  part: LanguageModelV1FilePart,
+  { fetch, abortSignal }: { fetch: FetchFunction, abortSignal?: AbortSignal },
+): Promise<Uint8Array> {
+  if (!(part.data instanceof URL)) {
+    return convertBase64ToUint8Array(part.data)
+  }
+
+  const url = part.data.toString()
+  const response = await fetch(url, { signal: abortSignal })
+  if (!response.ok) {
+    throw new APICallError({
+      message: `Failed to download file ${url}: ${response.status} ${response.statusText}`,
+      url,
+      requestBodyValues: {},
+      statusCode: response.status,
+      isRetryable: false,
+    })
+  }
+  return new Uint8Array(await response.arrayBuffer())
+}
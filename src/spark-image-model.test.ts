@@ -0,0 +1,68 @@
+import { InvalidArgumentError, InvalidResponseDataError } from "@ai-sdk/provider"
+import { describe, expect, it } from "vitest"
+import { createSparkProvider } from "./spark-provider"
+
+/**
+ * Answers every request with the given response body.
+ */
+function createImageFetch(body: unknown) {
+  const requests: Array<{ url: string, body: unknown }> = []
+  const fetch = async (url: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({ url: String(url), body: JSON.parse(init!.body as string) })
+    return new Response(JSON.stringify(body))
+  }
+  return { fetch, requests }
+}
+
+const credentials = { appId: "app", appKey: "key", appSecret: "secret" }
+const options = { prompt: "A cat", n: 1, size: undefined, aspectRatio: undefined, seed: undefined, providerOptions: {} }
+
+describe("SparkImageModel", () => {
+  it("sends the size and maps the base64 image of the response", async () => {
+    const { fetch, requests } = createImageFetch({
+      header: { code: 0, message: "Success", sid: "sid-1" },
+      payload: { choices: { text: [{ content: "AQID" }] } },
+    })
+    const model = createSparkProvider({ ...credentials, fetch }).imageModel("general")
+
+    const result = await model.doGenerate({ ...options, size: "1024x1024", providerOptions: { spark: { patch_id: ["p1"] } } })
+
+    expect(result.images).toStrictEqual([new Uint8Array([1, 2, 3])])
+    expect(result.warnings).toStrictEqual([])
+    expect(result.response.modelId).toBe("general")
+    expect(new URL(requests[0].url).searchParams.get("authorization")).not.toBeNull()
+    expect(requests[0].body).toStrictEqual({
+      header: { app_id: "app" },
+      parameter: { chat: { domain: "general", width: 1024, height: 1024, patch_id: ["p1"] } },
+      payload: { message: { text: [{ role: "user", content: "A cat" }] } },
+    })
+  })
+
+  it("rejects unsupported sizes before sending", async () => {
+    const { fetch, requests } = createImageFetch({})
+    const model = createSparkProvider({ ...credentials, fetch }).imageModel("general")
+
+    await expect(model.doGenerate({ ...options, size: "100x100" })).rejects.toThrow(InvalidArgumentError)
+    expect(requests).toStrictEqual([])
+  })
+
+  it("warns about settings Spark does not support", async () => {
+    const { fetch } = createImageFetch({
+      header: { code: 0, message: "Success" },
+      payload: { choices: { text: [{ content: "AQID" }] } },
+    })
+    const model = createSparkProvider({ ...credentials, fetch }).imageModel("general")
+
+    const { warnings } = await model.doGenerate({ ...options, n: 2, aspectRatio: "16:9", seed: 1 })
+
+    expect(warnings.map(warning => warning.type === "unsupported-setting" && warning.setting))
+      .toStrictEqual(["n", "aspectRatio", "seed"])
+  })
+
+  it("rejects responses without an image", async () => {
+    const { fetch } = createImageFetch({ header: { code: 0, message: "Success" } })
+    const model = createSparkProvider({ ...credentials, fetch }).imageModel("general")
+
+    await expect(model.doGenerate(options)).rejects.toThrow(InvalidResponseDataError)
+  })
+})
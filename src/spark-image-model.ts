@@ -0,0 +1,255 @@
+import type {
+  APICallError,
+  ImageModelV1,
+  ImageModelV1CallWarning,
+} from "@ai-sdk/provider"
+import type {
+  FetchFunction,
+  ResponseHandler,
+} from "@ai-sdk/provider-utils"
+import type { SparkAppCredentials } from "./spark-auth"
+import type { SparkCredentials } from "./spark-credentials"
+import type { SparkErrorStructure } from "./spark-error"
+import type {
+  SparkImageModelId,
+  SparkImageSettings,
+} from "./spark-image-settings"
+import type { SparkKeyPool } from "./spark-key-pool"
+import type { SparkAcquireRateLimitSlot } from "./spark-rate-limiter"
+import type { SparkRequestConfig } from "./spark-request"
+import type { SparkRetrySettings } from "./spark-retry"
+import {
+  InvalidArgumentError,
+  InvalidResponseDataError,
+} from "@ai-sdk/provider"
+import {
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createJsonResponseHandler,
+  postJsonToApi,
+} from "@ai-sdk/provider-utils"
+import { z } from "zod"
+import { createSparkAuthUrl } from "./spark-auth"
+import {
+  createSparkAPICallError,
+  createSparkFailedResponseHandler,
+  defaultSparkErrorStructure,
+} from "./spark-error"
+import { sendSparkRequest } from "./spark-request"
+
+/**
+ * Configuration for the Spark image model.
+ */
+export interface SparkImageConfig {
+  provider: string
+  /**
+   * Returns the unsigned endpoint URL.
+   */
+  url: (options: { modelId: string }) => string
+  /**
+   * Resolves the APPID, APIKey and APISecret used to sign requests.
+   */
+  credentials: (options: {
+    modelId: string
+    credentials?: SparkCredentials
+  }) => PromiseLike<SparkAppCredentials>
+  headers: () => Record<string, string | undefined>
+  fetch?: FetchFunction
+  errorStructure?: SparkErrorStructure<any>
+  retry?: SparkRetrySettings
+  acquireRateLimitSlot?: SparkAcquireRateLimitSlot
+  keyPool?: SparkKeyPool
+  resolveCredentials?: SparkRequestConfig["resolveCredentials"]
+  _internal?: {
+    currentDate?: () => Date
+  }
+}
+
+// Resolutions accepted by the text-to-image API, as `{width}x{height}`.
+export const sparkImageSizes = [
+  "512x512",
+  "640x360",
+  "640x480",
+  "640x640",
+  "680x512",
+  "512x680",
+  "768x768",
+  "720x1280",
+  "1280x720",
+  "1024x1024",
+] as const
+
+// limited version of the schema, focussed on what is needed for the implementation
+// this approach limits breakages when the API changes and increases efficiency
+const SparkImageResponseSchema = z.object({
+  header: z.object({
+    code: z.number(),
+    message: z.string(),
+    sid: z.string().nullish(),
+  }),
+  payload: z
+    .object({
+      choices: z.object({
+        text: z.array(
+          z.object({
+            content: z.string(),
+          }),
+        ),
+      }),
+    })
+    .nullish(),
+})
+
+/**
+ * Spark text-to-image model. Spark generates one image per signed request.
+ */
+export class SparkImageModel implements ImageModelV1 {
+  readonly specificationVersion = "v1"
+
+  readonly modelId: SparkImageModelId
+  readonly settings: SparkImageSettings
+
+  private readonly config: SparkImageConfig
+  private readonly failedResponseHandler: ResponseHandler<APICallError>
+
+  constructor(
+    modelId: SparkImageModelId,
+    settings: SparkImageSettings,
+    config: SparkImageConfig,
+  ) {
+    this.modelId = modelId
+    this.settings = settings
+    this.config = config
+    this.failedResponseHandler = createSparkFailedResponseHandler(
+      config.errorStructure ?? defaultSparkErrorStructure,
+    )
+  }
+
+  get provider(): string {
+    return this.config.provider
+  }
+
+  get maxImagesPerCall(): number {
+    return this.settings.maxImagesPerCall ?? 1
+  }
+
+  async doGenerate({
+    prompt,
+    n,
+    size = "512x512",
+    aspectRatio,
+    seed,
+    providerOptions,
+    headers,
+    abortSignal,
+  }: Parameters<ImageModelV1["doGenerate"]>[0]): Promise<
+    Awaited<ReturnType<ImageModelV1["doGenerate"]>>
+  > {
+    const warnings: Array<ImageModelV1CallWarning> = []
+
+    if (!(sparkImageSizes as readonly string[]).includes(size)) {
+      throw new InvalidArgumentError({
+        argument: "size",
+        message: `Spark does not support the image size ${size}. Supported sizes: ${sparkImageSizes.join(", ")}.`,
+      })
+    }
+
+    if (n > 1) {
+      warnings.push({
+        type: "unsupported-setting",
+        setting: "n",
+        details: "Spark generates one image per request. Only one image was generated.",
+      })
+    }
+
+    if (aspectRatio != null) {
+      warnings.push({
+        type: "unsupported-setting",
+        setting: "aspectRatio",
+        details: "Use one of the supported sizes instead.",
+      })
+    }
+
+    if (seed != null) {
+      warnings.push({ type: "unsupported-setting", setting: "seed" })
+    }
+
+    const [width, height] = size.split("x").map(Number)
+    const currentDate = this.config._internal?.currentDate?.() ?? new Date()
+
+    const response = await sendSparkRequest(
+      async (credentials) => {
+        const { appId, apiKey, apiSecret } = await this.config.credentials({
+          modelId: this.modelId,
+          credentials,
+        })
+        const url = await createSparkAuthUrl({
+          url: this.config.url({ modelId: this.modelId }),
+          apiKey,
+          apiSecret,
+          method: "POST",
+        })
+        const body = {
+          header: { app_id: appId },
+          parameter: {
+            chat: {
+              domain: this.modelId,
+              width,
+              height,
+              ...providerOptions.spark,
+            },
+          },
+          payload: {
+            message: {
+              text: [{ role: "user", content: prompt }],
+            },
+          },
+        }
+
+        const response = await postJsonToApi({
+          url,
+          headers: combineHeaders(this.config.headers(), headers),
+          body,
+          failedResponseHandler: this.failedResponseHandler,
+          successfulResponseHandler: createJsonResponseHandler(
+            SparkImageResponseSchema,
+          ),
+          abortSignal,
+          fetch: this.config.fetch,
+        })
+
+        // Spark reports failures in the response header with HTTP status 200.
+        const sparkError = createSparkAPICallError({
+          data: response.value.header,
+          url,
+          requestBodyValues: body,
+          responseHeaders: response.responseHeaders,
+        })
+        if (sparkError != null) {
+          throw sparkError
+        }
+        return response
+      },
+      { modelId: this.modelId, config: this.config, abortSignal },
+    )
+
+    const images = response.value.payload?.choices.text.map(item => item.content) ?? []
+    if (images.length === 0) {
+      throw new InvalidResponseDataError({
+        data: response.value,
+        message: "Spark returned no image.",
+      })
+    }
+
+    return {
+      // The API returns base64 encoded PNG data.
+      images: images.map(image => convertBase64ToUint8Array(image)),
+      warnings,
+      response: {
+        timestamp: currentDate,
+        modelId: this.modelId,
+        headers: response.responseHeaders,
+      },
+    }
+  }
+}
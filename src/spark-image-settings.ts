@@ -0,0 +1,10 @@
+// https://www.xfyun.cn/doc/spark/ImageGeneration.html
+export type SparkImageModelId = 'general' | (string & {});
+
+export interface SparkImageSettings {
+  /**
+Override the maximum number of images per call. Spark generates one image per
+request, so this defaults to 1.
+*/
+  maxImagesPerCall?: number;
+}
@@ -0,0 +1,100 @@
+import { APICallError } from "@ai-sdk/provider"
+import { describe, expect, it, vi } from "vitest"
+import { SparkKeyPool, withSparkKeyPool } from "./spark-key-pool"
+
+function createError(statusCode: number) {
+  return new APICallError({
+    message: "Request failed",
+    url: "https://spark-api-open.xf-yun.com/v1/chat/completions",
+    requestBodyValues: {},
+    statusCode,
+  })
+}
+
+const keys = [
+  { alias: "a", apiKey: "key-a" },
+  { alias: "b", apiKey: "key-b" },
+  { alias: "c", apiKey: "key-c", models: ["4.0Ultra"] },
+]
+
+describe("SparkKeyPool", () => {
+  it("cycles through the keys that can serve the model", () => {
+    const pool = new SparkKeyPool({ keys })
+    const select = (modelId: string) => pool.select({ modelId, exclude: new Set() })?.alias
+
+    expect([select("lite"), select("lite"), select("lite")]).toStrictEqual(["a", "b", "a"])
+    expect([select("4.0Ultra"), select("4.0Ultra")]).toStrictEqual(["b", "c"])
+  })
+
+  it("benches keys after auth errors", () => {
+    const pool = new SparkKeyPool({ keys, cooldownMs: 1000 })
+
+    expect(pool.reportFailure(keys[0], createError(401))).toBe(true)
+    expect(pool.select({ modelId: "lite", exclude: new Set() })?.alias).toBe("b")
+    expect(pool.select({ modelId: "lite", exclude: new Set() })?.alias).toBe("b")
+  })
+
+  it("does not fail over on request errors", () => {
+    const pool = new SparkKeyPool({ keys })
+
+    expect(pool.reportFailure(keys[0], createError(400))).toBe(false)
+    expect(pool.reportFailure(keys[0], new Error("network"))).toBe(false)
+  })
+
+  it("prefers keys that were throttled the longest time ago", () => {
+    const pool = new SparkKeyPool({ keys, strategy: "least-recently-throttled" })
+
+    pool.reportFailure(keys[0], createError(429))
+
+    expect(pool.select({ modelId: "lite", exclude: new Set() })?.alias).toBe("b")
+  })
+
+  it("picks keys proportionally to their weight", () => {
+    const pool = new SparkKeyPool({
+      keys: [{ alias: "a", apiKey: "key-a", weight: 1 }, { alias: "b", apiKey: "key-b", weight: 3 }],
+      strategy: "weighted",
+    })
+    const random = vi.spyOn(Math, "random")
+
+    random.mockReturnValueOnce(0.2)
+    expect(pool.select({ modelId: "lite", exclude: new Set() })?.alias).toBe("a")
+    random.mockReturnValueOnce(0.3)
+    expect(pool.select({ modelId: "lite", exclude: new Set() })?.alias).toBe("b")
+
+    random.mockRestore()
+  })
+})
+
+describe("withSparkKeyPool", () => {
+  it("fails over to the next key when a key is rejected", async () => {
+    const pool = new SparkKeyPool({ keys })
+    const send = vi.fn(async (key?: { alias: string }) => {
+      if (key?.alias === "a") {
+        throw createError(401)
+      }
+      return "ok"
+    })
+
+    await expect(withSparkKeyPool(send, { keyPool: pool, modelId: "lite" }))
+      .resolves
+      .toStrictEqual({ response: "ok", keyAlias: "b" })
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+
+  it("rethrows the error when no other key is left", async () => {
+    const pool = new SparkKeyPool({ keys: [keys[0]] })
+    const error = createError(403)
+
+    await expect(withSparkKeyPool(() => Promise.reject(error), { keyPool: pool, modelId: "lite" }))
+      .rejects
+      .toBe(error)
+  })
+
+  it("rejects models that no key can serve", async () => {
+    const pool = new SparkKeyPool({ keys: [keys[2]] })
+
+    await expect(withSparkKeyPool(async () => "ok", { keyPool: pool, modelId: "lite" }))
+      .rejects
+      .toThrow("No Spark key in the pool can serve model 'lite'.")
+  })
+})
@@ -0,0 +1,241 @@
+import type { SparkCredentials } from "./spark-credentials"
+import type { SparkErrorCategory } from "./spark-error"
+import { APICallError } from "@ai-sdk/provider"
+import { getSparkErrorCategory, getSparkErrorInfo } from "./spark-error"
+
+/**
+ * A credential set in the key pool.
+ */
+export interface SparkPoolKey extends SparkCredentials {
+  /**
+   * Name of the key. Reported in `providerMetadata.spark.keyAlias` instead of the secret.
+   */
+  alias: string
+  /**
+   * Relative share of requests with the `weighted` strategy. Defaults to 1.
+   */
+  weight?: number
+  /**
+   * Model IDs the key can serve. Defaults to all models.
+   */
+  models?: string[]
+}
+
+/**
+ * How the pool picks the key for a request.
+ *
+ * - `round-robin`: cycles through the keys.
+ * - `least-recently-throttled`: prefers keys that hit a rate limit the longest time ago.
+ * - `weighted`: picks keys at random, proportionally to their weight.
+ */
+export type SparkKeySelectionStrategy =
+  | "round-robin"
+  | "least-recently-throttled"
+  | "weighted"
+
+/**
+ * Settings of the key pool.
+ */
+export interface SparkKeyPoolSettings {
+  keys: SparkPoolKey[]
+  /**
+   * Defaults to `round-robin`.
+   */
+  strategy?: SparkKeySelectionStrategy
+  /**
+   * How long a key is benched after an auth or quota error, in milliseconds. Defaults to 60000.
+   */
+  cooldownMs?: number
+}
+
+interface KeyState {
+  key: SparkPoolKey
+  benchedUntil: number
+  lastThrottledAt: number
+  lastUsedAt: number
+}
+
+// Errors that are tied to the key rather than to the request.
+const failoverCategories: ReadonlySet<SparkErrorCategory> = new Set(["auth", "quota"])
+
+/**
+ * Spreads requests over several credential sets and benches keys that fail
+ * with auth or quota errors for a cooldown.
+ */
+export class SparkKeyPool {
+  private readonly states: KeyState[]
+  private readonly strategy: SparkKeySelectionStrategy
+  private readonly cooldownMs: number
+  private cursor = 0
+
+  constructor({ keys, strategy = "round-robin", cooldownMs = 60_000 }: SparkKeyPoolSettings) {
+    if (keys.length === 0) {
+      throw new Error("The Spark key pool needs at least one key.")
+    }
+    this.states = keys.map(key => ({ key, benchedUntil: 0, lastThrottledAt: 0, lastUsedAt: 0 }))
+    this.strategy = strategy
+    this.cooldownMs = cooldownMs
+  }
+
+  /**
+   * Picks the key for the next attempt.
+   *
+   * @param options.modelId - The model ID.
+   * @param options.exclude - Aliases of keys that already failed for this request.
+   * @returns The key, or undefined when no other key is available.
+   */
+  select({
+    modelId,
+    exclude,
+  }: {
+    modelId: string
+    exclude: ReadonlySet<string>
+  }): SparkPoolKey | undefined {
+    const now = Date.now()
+    const eligible = this.states.filter(state =>
+      (state.key.models == null || state.key.models.includes(modelId))
+      && !exclude.has(state.key.alias),
+    )
+    let candidates = eligible.filter(state => state.benchedUntil <= now)
+
+    // When every key is benched, the first attempt goes to the key that recovers first.
+    if (candidates.length === 0 && exclude.size === 0 && eligible.length > 0) {
+      candidates = [eligible.reduce((a, b) => (b.benchedUntil < a.benchedUntil ? b : a))]
+    }
+    if (candidates.length === 0) {
+      return undefined
+    }
+
+    const state = this.pick(candidates)
+    state.lastUsedAt = now
+    return state.key
+  }
+
+  /**
+   * Records a failed attempt.
+   *
+   * @param key - The key the attempt was sent with.
+   * @param error - The error of the attempt.
+   * @returns Whether the request should be retried with another key.
+   */
+  reportFailure(key: SparkPoolKey, error: unknown): boolean {
+    const state = this.states.find(state => state.key === key)
+    const category = getErrorCategory(error)
+    if (state == null || category == null) {
+      return false
+    }
+
+    if (category === "rate-limit") {
+      state.lastThrottledAt = Date.now()
+    }
+    if (failoverCategories.has(category)) {
+      state.benchedUntil = Date.now() + this.cooldownMs
+      return true
+    }
+    return false
+  }
+
+  private pick(candidates: KeyState[]): KeyState {
+    switch (this.strategy) {
+      case "round-robin": {
+        // Take the first candidate at or after the cursor in pool order.
+        const position = (state: KeyState) =>
+          (this.states.indexOf(state) - this.cursor + this.states.length) % this.states.length
+        const state = candidates.reduce((a, b) => (position(b) < position(a) ? b : a))
+        this.cursor = (this.states.indexOf(state) + 1) % this.states.length
+        return state
+      }
+
+      case "least-recently-throttled":
+        return candidates.reduce((a, b) =>
+          b.lastThrottledAt < a.lastThrottledAt
+          || (b.lastThrottledAt === a.lastThrottledAt && b.lastUsedAt < a.lastUsedAt)
+            ? b
+            : a,
+        )
+
+      case "weighted": {
+        const weights = candidates.map(state => Math.max(0, state.key.weight ?? 1))
+        const total = weights.reduce((sum, weight) => sum + weight, 0)
+        if (total === 0) {
+          return candidates[0]
+        }
+        let target = Math.random() * total
+        for (let i = 0; i < candidates.length; i++) {
+          target -= weights[i]
+          if (target < 0) {
+            return candidates[i]
+          }
+        }
+        return candidates[candidates.length - 1]
+      }
+
+      default: {
+        const _exhaustiveCheck: never = this.strategy
+        throw new Error(`Unsupported key selection strategy: ${_exhaustiveCheck}`)
+      }
+    }
+  }
+}
+
+function getErrorCategory(error: unknown): SparkErrorCategory | undefined {
+  const info = getSparkErrorInfo(error)
+  if (info != null) {
+    return info.category
+  }
+  return APICallError.isInstance(error) && error.statusCode != null
+    ? getSparkErrorCategory(undefined, error.statusCode)
+    : undefined
+}
+
+/**
+ * Sends a request with a key from the pool, failing over to the next key when
+ * the key is rejected.
+ *
+ * @param send - Sends the request with the given key (undefined without a pool).
+ * @param options.keyPool - The key pool. Without it the request is sent once without a key.
+ * @param options.modelId - The model ID.
+ * @param options.abortSignal - Stops the failover when aborted.
+ * @returns The response of `send`, together with the alias of the key that served it.
+ */
+export async function withSparkKeyPool<R>(
+  send: (key: SparkPoolKey | undefined) => PromiseLike<R>,
+  {
+    keyPool,
+    modelId,
+    abortSignal,
+  }: {
+    keyPool: SparkKeyPool | undefined
+    modelId: string
+    abortSignal?: AbortSignal
+  },
+): Promise<{ response: R, keyAlias?: string }> {
+  if (keyPool == null) {
+    return { response: await send(undefined) }
+  }
+
+  const tried = new Set<string>()
+  const first = keyPool.select({ modelId, exclude: tried })
+  if (first == null) {
+    throw new Error(`No Spark key in the pool can serve model '${modelId}'.`)
+  }
+
+  let key = first
+
+  for (;;) {
+    tried.add(key.alias)
+
+    try {
+      return { response: await send(key), keyAlias: key.alias }
+    }
+    catch (error) {
+      const next: SparkPoolKey | undefined = keyPool.reportFailure(key, error) && !abortSignal?.aborted
+        ? keyPool.select({ modelId, exclude: tried })
+        : undefined
+      if (next == null) {
+        throw error
+      }
+      key = next
+    }
+  }
+}
@@ -1,4 +1,8 @@
-import type { LanguageModelV1ProviderMetadata } from "@ai-sdk/provider"
+import type {
+  JSONValue,
+  LanguageModelV1ProviderMetadata,
+} from "@ai-sdk/provider"
+import { z } from "zod"
 
 /**
  * Interface for extracting provider-specific metadata from API responses.
@@ -32,4 +36,145 @@ export interface MetadataExtractor {
      */
     buildMetadata: () => LanguageModelV1ProviderMetadata | undefined
   }
-}
\ No newline at end of file
+}
+
+// limited version of the schema, focussed on what is needed for the implementation
+// this approach limits breakages when the API changes and increases efficiency
+const sparkMetadataSchema = z.object({
+  sid: z.string().nullish(),
+  code: z.number().nullish(),
+  message: z.string().nullish(),
+  usage: z
+    .object({
+      total_tokens: z.number().nullish(),
+      question_tokens: z.number().nullish(),
+    })
+    .nullish(),
+})
+
+/**
+ * Metadata collected from a Spark response.
+ */
+interface SparkResponseMetadata {
+  sid?: string
+  code?: number
+  message?: string
+  totalTokens?: number
+  questionTokens?: number
+}
+
+/**
+ * Merges the fields of a parsed response or chunk into the collected metadata.
+ */
+function collectSparkMetadata(
+  metadata: SparkResponseMetadata,
+  value: z.infer<typeof sparkMetadataSchema>,
+) {
+  metadata.sid = value.sid ?? metadata.sid
+  metadata.code = value.code ?? metadata.code
+  metadata.message = value.message ?? metadata.message
+  metadata.totalTokens = value.usage?.total_tokens ?? metadata.totalTokens
+  metadata.questionTokens = value.usage?.question_tokens ?? metadata.questionTokens
+}
+
+/**
+ * Converts the collected metadata into provider metadata, skipping missing values.
+ */
+function toProviderMetadata(
+  metadata: SparkResponseMetadata,
+): LanguageModelV1ProviderMetadata | undefined {
+  const spark: Record<string, JSONValue> = {}
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value !== undefined) {
+      spark[key] = value
+    }
+  }
+  return Object.keys(spark).length > 0 ? { spark } : undefined
+}
+
+/**
+ * Default metadata extractor for Spark responses.
+ *
+ * Exposes the session id (`sid`), the response `code` and `message`,
+ * `totalTokens` and `questionTokens` under `providerMetadata.spark`. Web search
+ * `sources` and `timeToFirstTokenMs` are added by the chat model itself.
+ */
+export const sparkMetadataExtractor: MetadataExtractor = {
+  extractMetadata: ({ parsedBody }) => {
+    const parsed = sparkMetadataSchema.safeParse(parsedBody)
+    if (!parsed.success) {
+      return undefined
+    }
+    const metadata: SparkResponseMetadata = {}
+    collectSparkMetadata(metadata, parsed.data)
+    return toProviderMetadata(metadata)
+  },
+
+  createStreamExtractor: () => {
+    const metadata: SparkResponseMetadata = {}
+
+    return {
+      processChunk: (parsedChunk) => {
+        const parsed = sparkMetadataSchema.safeParse(parsedChunk)
+        if (!parsed.success) {
+          return
+        }
+        collectSparkMetadata(metadata, parsed.data)
+      },
+      buildMetadata: () => toProviderMetadata(metadata),
+    }
+  },
+}
+
+/**
+ * Combines several metadata extractors. The `spark` (and any other provider)
+ * entries are merged, later extractors overriding earlier ones.
+ *
+ * @param extractors - The extractors to combine.
+ * @returns A metadata extractor running all of them.
+ */
+export function composeMetadataExtractors(
+  ...extractors: MetadataExtractor[]
+): MetadataExtractor {
+  return {
+    extractMetadata: options =>
+      mergeProviderMetadata(
+        extractors.map(extractor => extractor.extractMetadata(options)),
+      ),
+    createStreamExtractor: () => {
+      const streamExtractors = extractors.map(extractor =>
+        extractor.createStreamExtractor(),
+      )
+      return {
+        processChunk: (parsedChunk) => {
+          for (const streamExtractor of streamExtractors) {
+            streamExtractor.processChunk(parsedChunk)
+          }
+        },
+        buildMetadata: () =>
+          mergeProviderMetadata(
+            streamExtractors.map(streamExtractor => streamExtractor.buildMetadata()),
+          ),
+      }
+    },
+  }
+}
+
+/**
+ * Merges provider metadata entries, later entries overriding earlier ones.
+ */
+export function mergeProviderMetadata(
+  metadataList: Array<LanguageModelV1ProviderMetadata | undefined>,
+): LanguageModelV1ProviderMetadata | undefined {
+  let merged: LanguageModelV1ProviderMetadata | undefined
+  for (const metadata of metadataList) {
+    if (metadata == null) {
+      continue
+    }
+    merged = { ...merged }
+    for (const [provider, values] of Object.entries(metadata)) {
+      merged[provider] = { ...merged[provider], ...values }
+    }
+  }
+  return merged
+}
@@ -0,0 +1,292 @@
+import type { LanguageModelV1ObjectGenerationMode } from "@ai-sdk/provider"
+import type { SparkChatModelId } from "./spark-chat-settings"
+import type { SparkSamplingRanges } from "./spark-sampling"
+
+/**
+ * Capabilities and endpoints of a Spark chat model.
+ */
+export interface SparkModelInfo {
+  /**
+   * The model ID passed to the provider.
+   */
+  id: SparkChatModelId
+  /**
+   * Display name.
+   */
+  name: string
+  /**
+   * Maximum number of input and output tokens.
+   */
+  contextWindow: number
+  /**
+   * Maximum value of `max_tokens`.
+   */
+  maxOutputTokens: number
+  /**
+   * Sampling ranges that differ from the general Spark ranges.
+   */
+  samplingRanges?: Partial<SparkSamplingRanges>
+  /**
+   * Whether the model supports function calling.
+   */
+  supportsTools: boolean
+  /**
+   * Whether the model accepts image input.
+   */
+  supportsVision: boolean
+  /**
+   * Whether the model supports `response_format: { type: "json_object" }`.
+   */
+  supportsJsonMode: boolean
+  /**
+   * Whether the model supports `response_format: { type: "json_schema" }`.
+   */
+  supportsStructuredOutputs: boolean
+  /**
+   * Whether the model supports the built-in web search tool.
+   */
+  supportsWebSearch: boolean
+  /**
+   * Whether the model returns `reasoning_content`.
+   */
+  supportsReasoning: boolean
+  /**
+   * Input limits of image understanding models. Set when `supportsVision` is true.
+   */
+  vision?: {
+    /**
+     * Maximum size of the (decoded) image in bytes.
+     */
+    maxImageBytes: number
+  }
+  /**
+   * Version segment of the HTTP endpoint, e.g. `v1` in `https://spark-api-open.xf-yun.com/v1`.
+   * Undefined for models that are only served over WebSocket.
+   */
+  httpApiVersion?: "v1" | "v2"
+  /**
+   * Path and domain of the WebSocket endpoint, and its base URL when it is not
+   * served from `wss://spark-api.xf-yun.com`.
+   */
+  webSocket: { path: string, domain: string, baseURL?: string }
+  /**
+   * Set when the model ID is deprecated.
+   */
+  deprecated?: {
+    /**
+     * The model ID to use instead.
+     */
+    replacement: SparkChatModelId
+    message?: string
+  }
+}
+
+// https://www.xfyun.cn/doc/spark/HTTP%E8%B0%83%E7%94%A8%E6%96%87%E6%A1%A3.html
+// https://www.xfyun.cn/doc/spark/Web.html
+const sparkModels: SparkModelInfo[] = [
+  {
+    id: "lite",
+    name: "Spark Lite",
+    contextWindow: 8192,
+    maxOutputTokens: 4096,
+    supportsTools: false,
+    supportsVision: false,
+    supportsJsonMode: false,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: false,
+    supportsReasoning: false,
+    httpApiVersion: "v1",
+    webSocket: { path: "/v1.1/chat", domain: "lite" },
+  },
+  {
+    id: "generalv3",
+    name: "Spark Pro",
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    supportsTools: false,
+    supportsVision: false,
+    supportsJsonMode: false,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: true,
+    supportsReasoning: false,
+    httpApiVersion: "v1",
+    webSocket: { path: "/v3.1/chat", domain: "generalv3" },
+  },
+  {
+    id: "pro-128k",
+    name: "Spark Pro-128K",
+    contextWindow: 131072,
+    maxOutputTokens: 4096,
+    supportsTools: false,
+    supportsVision: false,
+    supportsJsonMode: false,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: false,
+    supportsReasoning: false,
+    httpApiVersion: "v1",
+    webSocket: { path: "/chat/pro-128k", domain: "pro-128k" },
+  },
+  {
+    id: "generalv3.5",
+    name: "Spark Max",
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    supportsTools: true,
+    supportsVision: false,
+    supportsJsonMode: true,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: true,
+    supportsReasoning: false,
+    httpApiVersion: "v1",
+    webSocket: { path: "/v3.5/chat", domain: "generalv3.5" },
+  },
+  {
+    id: "max-32k",
+    name: "Spark Max-32K",
+    contextWindow: 32768,
+    maxOutputTokens: 8192,
+    supportsTools: true,
+    supportsVision: false,
+    supportsJsonMode: true,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: true,
+    supportsReasoning: false,
+    httpApiVersion: "v1",
+    webSocket: { path: "/chat/max-32k", domain: "max-32k" },
+  },
+  {
+    id: "4.0Ultra",
+    name: "Spark 4.0 Ultra",
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    supportsTools: true,
+    supportsVision: false,
+    supportsJsonMode: true,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: true,
+    supportsReasoning: false,
+    httpApiVersion: "v1",
+    webSocket: { path: "/v4.0/chat", domain: "4.0Ultra" },
+  },
+  {
+    id: "x1",
+    name: "Spark X1",
+    contextWindow: 32768,
+    maxOutputTokens: 32768,
+    supportsTools: false,
+    supportsVision: false,
+    supportsJsonMode: false,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: true,
+    supportsReasoning: true,
+    httpApiVersion: "v2",
+    webSocket: { path: "/v1/x1", domain: "x1" },
+  },
+  {
+    id: "image",
+    name: "Spark Image Understanding",
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    samplingRanges: { temperature: { min: 0, max: 1 } },
+    supportsTools: false,
+    supportsVision: true,
+    supportsJsonMode: false,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: false,
+    supportsReasoning: false,
+    vision: { maxImageBytes: 4 * 1024 * 1024 },
+    webSocket: {
+      path: "/v2.1/image",
+      domain: "general",
+      baseURL: "wss://spark-api.cn-huabei-1.xf-yun.com",
+    },
+  },
+  {
+    id: "imagev3",
+    name: "Spark Image Understanding (Advanced)",
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    samplingRanges: { temperature: { min: 0, max: 1 } },
+    supportsTools: false,
+    supportsVision: true,
+    supportsJsonMode: false,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: false,
+    supportsReasoning: false,
+    vision: { maxImageBytes: 4 * 1024 * 1024 },
+    webSocket: {
+      path: "/v2.1/image",
+      domain: "imagev3",
+      baseURL: "wss://spark-api.cn-huabei-1.xf-yun.com",
+    },
+  },
+  {
+    id: "general",
+    name: "Spark V1.5",
+    contextWindow: 8192,
+    maxOutputTokens: 4096,
+    samplingRanges: { temperature: { min: 0, max: 1 } },
+    supportsTools: false,
+    supportsVision: false,
+    supportsJsonMode: false,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: false,
+    supportsReasoning: false,
+    httpApiVersion: "v1",
+    webSocket: { path: "/v1.1/chat", domain: "general" },
+    deprecated: {
+      replacement: "lite",
+      message: "Spark V1.5 has been renamed to Spark Lite.",
+    },
+  },
+  {
+    id: "generalv2",
+    name: "Spark V2.0",
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    supportsTools: false,
+    supportsVision: false,
+    supportsJsonMode: false,
+    supportsStructuredOutputs: false,
+    supportsWebSearch: false,
+    supportsReasoning: false,
+    httpApiVersion: "v1",
+    webSocket: { path: "/v2.1/chat", domain: "generalv2" },
+    deprecated: {
+      replacement: "generalv3",
+      message: "Spark V2.0 has been retired.",
+    },
+  },
+]
+
+const sparkModelsById = new Map(sparkModels.map(model => [model.id, model]))
+
+/**
+ * Looks up a model in the catalog.
+ *
+ * @param modelId - The model ID.
+ * @returns The model info, or undefined for models that are not in the catalog.
+ */
+export function getSparkModelInfo(modelId: SparkChatModelId): SparkModelInfo | undefined {
+  return sparkModelsById.get(modelId)
+}
+
+/**
+ * Lists all models in the catalog, including deprecated ones.
+ */
+export function listSparkModels(): SparkModelInfo[] {
+  return [...sparkModels]
+}
+
+/**
+ * Picks the object generation mode with the best results for a model:
+ * tool calling when available, JSON otherwise.
+ */
+export function getSparkDefaultObjectGenerationMode(
+  model: SparkModelInfo | undefined,
+): LanguageModelV1ObjectGenerationMode {
+  if (model == null || model.supportsTools) {
+    return "tool"
+  }
+  return "json"
+}
@@ -0,0 +1,42 @@
+import { TypeValidationError } from "@ai-sdk/provider"
+import { describe, expect, it } from "vitest"
+import { prepareTools } from "./spark-prepare-tools"
+
+describe("prepareTools", () => {
+  it("serializes the web search tool", () => {
+    const { tools, toolWarnings } = prepareTools({
+      mode: {
+        type: "regular",
+        tools: [{ type: "provider-defined", id: "spark.web_search", name: "webSearch", args: { showRefLabel: true, searchMode: "deep" } }],
+      },
+    })
+
+    expect(tools).toStrictEqual([
+      { type: "web_search", web_search: { enable: true, show_ref_label: true, search_mode: "deep" } },
+    ])
+    expect(toolWarnings).toStrictEqual([])
+  })
+
+  it("rejects invalid web search options", () => {
+    expect(() => prepareTools({
+      mode: {
+        type: "regular",
+        tools: [{ type: "provider-defined", id: "spark.web_search", name: "webSearch", args: { searchMode: "fast" } }],
+      },
+    })).toThrow(TypeValidationError)
+  })
+
+  it("maps the tool choice", () => {
+    expect(prepareTools({
+      mode: {
+        type: "regular",
+        tools: [{ type: "function", name: "weather", parameters: { type: "object" } }],
+        toolChoice: { type: "tool", toolName: "weather" },
+      },
+    })).toStrictEqual({
+      tools: [{ type: "function", function: { name: "weather", description: undefined, parameters: { type: "object" } } }],
+      tool_choice: { type: "function", function: { name: "weather" } },
+      toolWarnings: [],
+    })
+  })
+})
@@ -2,9 +2,25 @@ import type {
   LanguageModelV1,
   LanguageModelV1CallWarning,
 } from "@ai-sdk/provider"
+import type { SparkModelInfo } from "./spark-model-catalog"
 import {
   UnsupportedFunctionalityError,
 } from "@ai-sdk/provider"
+import {
+  prepareSparkWebSearchTool,
+  SPARK_WEB_SEARCH_TOOL_ID,
+} from "./spark-tools"
+
+type SparkTool =
+  | {
+    type: "function"
+    function: {
+      name: string
+      description: string | undefined
+      parameters: unknown
+    }
+  }
+  | ReturnType<typeof prepareSparkWebSearchTool>
 
 /**
  * @deprecated
@@ -13,22 +29,16 @@ import {
  */
 export function prepareTools({
   mode,
+  modelInfo,
 }: {
   mode: Parameters<LanguageModelV1["doGenerate"]>[0]["mode"] & {
     type: "regular"
   }
-  structuredOutputs: boolean
+  modelInfo?: SparkModelInfo
 }): {
     tools:
       | undefined
-      | Array<{
-        type: "function"
-        function: {
-          name: string
-          description: string | undefined
-          parameters: unknown
-        }
-      }>
+      | Array<SparkTool>
     tool_choice:
       | { type: "function", function: { name: string } }
       | "auto"
@@ -46,22 +56,37 @@ export function prepareTools({
   }
 
   const toolChoice = mode.toolChoice
-  const sparkCompatTools: Array<{
-    type: "function"
-    function: {
-      name: string
-      description: string | undefined
-      parameters: unknown
-    }
-  }> = []
+  const sparkCompatTools: Array<SparkTool> = []
 
   // Process each tool and format for compatibility.
   for (const tool of tools) {
     if (tool.type === "provider-defined") {
-      // Warn if the tool is provider-defined.
-      toolWarnings.push({ type: "unsupported-tool", tool })
+      if (tool.id === SPARK_WEB_SEARCH_TOOL_ID) {
+        // Spark's built-in web search.
+        if (modelInfo != null && !modelInfo.supportsWebSearch) {
+          toolWarnings.push({
+            type: "unsupported-tool",
+            tool,
+            details: `${modelInfo.name} does not support web search.`,
+          })
+        }
+        sparkCompatTools.push(
+          prepareSparkWebSearchTool(tool.args),
+        )
+      }
+      else {
+        // Warn if the tool is an unknown provider-defined tool.
+        toolWarnings.push({ type: "unsupported-tool", tool })
+      }
     }
     else {
+      if (modelInfo != null && !modelInfo.supportsTools) {
+        toolWarnings.push({
+          type: "unsupported-tool",
+          tool,
+          details: `${modelInfo.name} does not support function calling.`,
+        })
+      }
       sparkCompatTools.push({
         type: "function",
         function: {
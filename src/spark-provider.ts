@@ -1,8 +1,14 @@
-import { LanguageModelV1 } from '@ai-sdk/provider';
+import {
+  EmbeddingModelV1,
+  ImageModelV1,
+  LanguageModelV1,
+} from '@ai-sdk/provider';
 
 import {
   FetchFunction,
   loadApiKey,
+  loadOptionalSetting,
+  loadSetting,
   withoutTrailingSlash,
 } from '@ai-sdk/provider-utils';
 import { SparkChatLanguageModel } from './spark-chat-language-model';
@@ -16,6 +22,41 @@ import {
   SparkCompletionModelId,
   SparkCompletionSettings,
 } from './spark-completion-settings';
+import {
+  getSparkCredentialId,
+  getSparkModelEnvironmentVariableName,
+  SparkCredentials,
+  SparkCredentialsResolver,
+} from './spark-credentials';
+import { SparkEmbeddingModel } from './spark-embedding-model';
+import {
+  SparkEmbeddingModelId,
+  SparkEmbeddingSettings,
+} from './spark-embedding-settings';
+import { SparkImageModel } from './spark-image-model';
+import { SparkImageModelId, SparkImageSettings } from './spark-image-settings';
+import { SparkKeyPool, SparkKeyPoolSettings } from './spark-key-pool';
+import {
+  MetadataExtractor,
+  sparkMetadataExtractor,
+} from './spark-metadata.extractor';
+import {
+  getSparkDefaultObjectGenerationMode,
+  getSparkModelInfo,
+  listSparkModels,
+  SparkModelInfo,
+} from './spark-model-catalog';
+import {
+  SparkAcquireRateLimitSlot,
+  SparkRateLimiter,
+  SparkRateLimiterSettings,
+} from './spark-rate-limiter';
+import { SparkRetrySettings } from './spark-retry';
+import { sparkTools } from './spark-tools';
+import {
+  SparkWebSocketConfig,
+  SparkWebSocketConstructor,
+} from './spark-websocket';
 
 export interface SparkProviderSettings {
   /**
@@ -23,7 +64,18 @@ Spark API key.
 */
   apiKey?: string;
   /**
-Base URL for the API calls.
+Spark APIPasswords per model ID, e.g. `{ '4.0Ultra': '...' }`. Models without an
+entry use the `SPARK_API_KEY_<MODEL>` environment variable (e.g. `SPARK_API_KEY_4_0ULTRA`),
+then `apiKey`, then `SPARK_API_KEY`.
+*/
+  apiKeys?: Record<string, string>;
+  /**
+Resolves the credentials of a model before each request, e.g. from a secret store.
+Fields it leaves undefined fall back to the other settings.
+*/
+  getCredentials?: SparkCredentialsResolver;
+  /**
+Base URL for the API calls. Defaults to the `/v1` endpoint, or `/v2` for X1.
 */
   baseURL?: string;
   /**
@@ -35,6 +87,70 @@ Custom fetch implementation. You can use it as a middleware to intercept request
 or to provide a custom fetch implementation for e.g. testing.
 */
   fetch?: FetchFunction;
+  /**
+Transport used by chat models. `http` (default) calls the OpenAI-compatible
+endpoint with the APIPassword. `websocket` calls the classic signed
+`wss://spark-api.xf-yun.com` endpoints with the APPID/APIKey/APISecret triple.
+*/
+  transport?: 'http' | 'websocket';
+  /**
+Spark APPID, used by the WebSocket transport, the embedding model and the image model.
+*/
+  appId?: string;
+  /**
+Spark APIKey (not the APIPassword), used to sign WebSocket, embedding and image requests.
+*/
+  appKey?: string;
+  /**
+Spark APISecret, used to sign WebSocket, embedding and image requests.
+*/
+  appSecret?: string;
+  /**
+Base URL for the WebSocket API calls.
+*/
+  webSocketBaseURL?: string;
+  /**
+URL of the embedding API. Defaults to `https://emb-cn-huabei-1.xf-yun.com/`.
+*/
+  embeddingURL?: string;
+  /**
+URL of the text-to-image API. Defaults to `https://spark-api.cn-huabei-1.xf-yun.com/v2.1/tti`.
+*/
+  imageURL?: string;
+  /**
+Base URL of the document Q&A (ChatDoc) API, used for file parts that are not
+inlined. Defaults to `https://chatdoc.xfyun.cn/openapi`.
+*/
+  chatDocBaseURL?: string;
+  /**
+Custom WebSocket implementation, e.g. the `ws` package on Node versions
+without a global `WebSocket`.
+*/
+  webSocket?: SparkWebSocketConstructor;
+  /**
+Retry policy for failed requests: exponential backoff with jitter,
+`Retry-After` handling and a predicate based on Spark error codes.
+Requests are not retried when this is not set.
+*/
+  retry?: SparkRetrySettings;
+  /**
+Client-side rate limiter: token-bucket QPS and maximum in-flight requests,
+scoped per model ID and credential, with optional per-model overrides.
+The time a call spent queued is reported as `providerMetadata.spark.queueWaitMs`.
+*/
+  rateLimit?: SparkRateLimiterSettings;
+  /**
+Extracts `providerMetadata` from chat responses. Defaults to
+`sparkMetadataExtractor`; use `composeMetadataExtractors` to extend it.
+Its values override the ones the chat model reports, such as `sources`.
+*/
+  metadataExtractor?: MetadataExtractor;
+  /**
+Pool of credential sets to spread requests over. Keys that fail with auth or
+quota errors are benched for a cooldown and the request is retried with the next
+key. The alias of the serving key is reported as `providerMetadata.spark.keyAlias`.
+*/
+  keyPool?: SparkKeyPoolSettings;
 }
 
 export interface SparkProvider {
@@ -62,44 +178,219 @@ Creates a completion model for text generation.
     settings?: SparkCompletionSettings,
   ): LanguageModelV1;
 
+  /**
+Creates a text embedding model. Requests are signed with the APPID, APIKey and APISecret.
+*/
+  textEmbeddingModel(
+    modelId: SparkEmbeddingModelId,
+    settings?: SparkEmbeddingSettings,
+  ): EmbeddingModelV1<string>;
+
+  /**
+Creates a text-to-image model. Requests are signed with the APPID, APIKey and APISecret.
+*/
+  imageModel(
+    modelId: SparkImageModelId,
+    settings?: SparkImageSettings,
+  ): ImageModelV1;
+
+  /**
+Spark built-in tools, e.g. `spark.tools.webSearch()`.
+*/
+  tools: typeof sparkTools;
+
+  /**
+Returns the capabilities of a model, or `undefined` for models that are not
+in the catalog.
+*/
+  getModelInfo(modelId: SparkChatModelId): SparkModelInfo | undefined;
+
+  /**
+Lists the models in the catalog, including deprecated ones.
+*/
+  listModels(): SparkModelInfo[];
 }
 
 export function createSparkProvider(
   options: SparkProviderSettings = {},
 ): SparkProvider {
-  const baseURL = withoutTrailingSlash(
-    options.baseURL ?? 'https://spark-api-open.xf-yun.com/v1',
-  );
-  const getHeaders = () => ({
-    Authorization: `Bearer ${loadApiKey({
-      apiKey: options.apiKey,
+  const getBaseURL = (modelId: string) =>
+    withoutTrailingSlash(
+      options.baseURL ??
+        `https://spark-api-open.xf-yun.com/${getHttpApiVersion(modelId)}`,
+    );
+  // Pool keys take precedence over resolved credentials. Missing fields fall
+  // back to per-model and provider-wide settings.
+  const resolveCredentials = async (
+    modelId: string,
+    poolKey?: SparkCredentials,
+  ): Promise<SparkCredentials> =>
+    poolKey ?? (await options.getCredentials?.(modelId)) ?? {};
+
+  const getApiKey = async (modelId: string, poolKey?: SparkCredentials) => {
+    const credentials = await resolveCredentials(modelId, poolKey);
+    return loadApiKey({
+      apiKey:
+        credentials?.apiKey ??
+        options.apiKeys?.[modelId] ??
+        loadOptionalSetting({
+          settingValue: undefined,
+          environmentVariableName: getSparkModelEnvironmentVariableName(
+            'SPARK_API_KEY',
+            modelId,
+          ),
+        }) ??
+        options.apiKey,
       environmentVariableName: 'SPARK_API_KEY',
       description: "Spark's API key",
-    })}`,
+    });
+  };
+
+  const getHeaders = async ({
+    modelId,
+    credentials,
+  }: {
+    modelId: string;
+    credentials?: SparkCredentials;
+  }) => ({
+    Authorization: `Bearer ${await getApiKey(modelId, credentials)}`,
     ...options.headers,
   });
 
+  const webSocketBaseURL = withoutTrailingSlash(
+    options.webSocketBaseURL ?? 'wss://spark-api.xf-yun.com',
+  );
+
+  const chatDocBaseURL =
+    withoutTrailingSlash(options.chatDocBaseURL) ??
+    'https://chatdoc.xfyun.cn/openapi';
+
+  const getAppCredentials = async (
+    modelId: string,
+    poolKey?: SparkCredentials,
+  ) => {
+    const credentials = await resolveCredentials(modelId, poolKey);
+    return {
+      appId: loadSetting({
+        settingValue: credentials?.appId ?? options.appId,
+        environmentVariableName: 'SPARK_APP_ID',
+        settingName: 'appId',
+        description: 'Spark APPID',
+      }),
+      apiKey: loadSetting({
+        settingValue: credentials?.appKey ?? options.appKey,
+        environmentVariableName: 'SPARK_APP_KEY',
+        settingName: 'appKey',
+        description: 'Spark APIKey',
+      }),
+      apiSecret: loadSetting({
+        settingValue: credentials?.appSecret ?? options.appSecret,
+        environmentVariableName: 'SPARK_APP_SECRET',
+        settingName: 'appSecret',
+        description: 'Spark APISecret',
+      }),
+    };
+  };
+
+  const getWebSocketConfig = (): SparkWebSocketConfig => ({
+    url: ({ modelId }) => {
+      const endpoint = getWebSocketEndpoint(modelId);
+      return `${endpoint.baseURL ?? webSocketBaseURL}${endpoint.path}`;
+    },
+    domain: ({ modelId }) => getWebSocketEndpoint(modelId).domain,
+    credentials: ({ modelId, credentials }) =>
+      getAppCredentials(modelId, credentials),
+    webSocket: options.webSocket,
+  });
+
+  const rateLimiter =
+    options.rateLimit != null
+      ? new SparkRateLimiter(options.rateLimit)
+      : undefined;
+
+  // Scope limits by the credential requests are sent with. The credentials
+  // are resolved once per attempt and passed in.
+  const createAcquireRateLimitSlot = (
+    getCredentialScope: (
+      modelId: string,
+      credentials?: SparkCredentials,
+    ) => PromiseLike<string>,
+  ): SparkAcquireRateLimitSlot | undefined =>
+    rateLimiter &&
+    (async ({ modelId, credentials, abortSignal }) =>
+      rateLimiter.acquire({
+        modelId,
+        credential: await getCredentialScope(modelId, credentials),
+        abortSignal,
+      }));
+
+  const acquireRateLimitSlotByApiKey = createAcquireRateLimitSlot(
+    async (modelId, credentials) =>
+      getSparkCredentialId(await getApiKey(modelId, credentials)),
+  );
+  const acquireRateLimitSlotByAppId = createAcquireRateLimitSlot(
+    async (modelId, credentials) =>
+      (await getAppCredentials(modelId, credentials)).appId,
+  );
+
+  const keyPool =
+    options.keyPool != null ? new SparkKeyPool(options.keyPool) : undefined;
+
   interface CommonModelConfig {
     provider: string;
-    url: ({ path }: { path: string }) => string;
-    headers: () => Record<string, string>;
+    url: ({ modelId, path }: { modelId: string; path: string }) => string;
+    headers: (options: {
+      modelId: string;
+      credentials?: SparkCredentials;
+    }) => PromiseLike<Record<string, string>>;
     fetch?: FetchFunction;
+    retry?: SparkRetrySettings;
+    acquireRateLimitSlot?: SparkAcquireRateLimitSlot;
+    keyPool?: SparkKeyPool;
+    resolveCredentials: (
+      modelId: string,
+      poolKey?: SparkCredentials,
+    ) => PromiseLike<SparkCredentials>;
   }
 
   const getCommonModelConfig = (modelType: string): CommonModelConfig => ({
     provider: `spark.${modelType}`,
-    url: ({ path }) => `${baseURL}${path}`,
+    url: ({ modelId, path }) => `${getBaseURL(modelId)}${path}`,
     headers: getHeaders,
     fetch: options.fetch,
+    retry: options.retry,
+    acquireRateLimitSlot: acquireRateLimitSlotByApiKey,
+    keyPool,
+    resolveCredentials,
   });
 
   const createChatModel = (
     modelId: SparkChatModelId,
     settings: SparkChatSettings = {},
   ) => {
+    const modelInfo = getSparkModelInfo(modelId);
     return new SparkChatLanguageModel(modelId, settings, {
       ...getCommonModelConfig('chat'),
-      defaultObjectGenerationMode: 'tool',
+      modelInfo,
+      supportsStructuredOutputs: modelInfo?.supportsStructuredOutputs,
+      defaultObjectGenerationMode:
+        getSparkDefaultObjectGenerationMode(modelInfo),
+      metadataExtractor: options.metadataExtractor ?? sparkMetadataExtractor,
+      chatDoc: {
+        baseURL: chatDocBaseURL,
+        credentials: ({ modelId, credentials }) =>
+          getAppCredentials(modelId, credentials),
+        fetch: options.fetch,
+        webSocket: options.webSocket,
+        // ChatDoc is signed with the APPID and APISecret, never the APIPassword.
+        acquireRateLimitSlot: acquireRateLimitSlotByAppId,
+      },
+      // Models without an HTTP endpoint (e.g. image understanding) always use WebSocket.
+      ...((options.transport === 'websocket' ||
+        (modelInfo != null && modelInfo.httpApiVersion == null)) && {
+        webSocket: getWebSocketConfig(),
+        acquireRateLimitSlot: acquireRateLimitSlotByAppId,
+      }),
     });
   };
 
@@ -107,12 +398,45 @@ export function createSparkProvider(
     modelId: SparkCompletionModelId,
     settings: SparkCompletionSettings = {},
   ) =>
-    new SparkCompletionLanguageModel(
-      modelId,
-      settings,
-      getCommonModelConfig('completion'),
-    );
+    new SparkCompletionLanguageModel(modelId, settings, {
+      ...getCommonModelConfig('completion'),
+      modelInfo: getSparkModelInfo(modelId),
+    });
 
+  const createTextEmbeddingModel = (
+    modelId: SparkEmbeddingModelId,
+    settings: SparkEmbeddingSettings = {},
+  ) =>
+    new SparkEmbeddingModel(modelId, settings, {
+      provider: 'spark.embedding',
+      url: () => options.embeddingURL ?? 'https://emb-cn-huabei-1.xf-yun.com/',
+      credentials: ({ modelId, credentials }) =>
+        getAppCredentials(modelId, credentials),
+      headers: () => ({ ...options.headers }),
+      fetch: options.fetch,
+      retry: options.retry,
+      acquireRateLimitSlot: acquireRateLimitSlotByAppId,
+      keyPool,
+      resolveCredentials,
+    });
+
+  const createImageModel = (
+    modelId: SparkImageModelId,
+    settings: SparkImageSettings = {},
+  ) =>
+    new SparkImageModel(modelId, settings, {
+      provider: 'spark.image',
+      url: () =>
+        options.imageURL ?? 'https://spark-api.cn-huabei-1.xf-yun.com/v2.1/tti',
+      credentials: ({ modelId, credentials }) =>
+        getAppCredentials(modelId, credentials),
+      headers: () => ({ ...options.headers }),
+      fetch: options.fetch,
+      retry: options.retry,
+      acquireRateLimitSlot: acquireRateLimitSlotByAppId,
+      keyPool,
+      resolveCredentials,
+    });
 
   const provider = (
     modelId: SparkChatModelId,
@@ -121,8 +445,29 @@ export function createSparkProvider(
 
   provider.completionModel = createCompletionModel;
   provider.chatModel = createChatModel;
+  provider.textEmbeddingModel = createTextEmbeddingModel;
+  provider.imageModel = createImageModel;
+  provider.tools = sparkTools;
+  provider.getModelInfo = getSparkModelInfo;
+  provider.listModels = listSparkModels;
 
   return provider as SparkProvider;
 }
 
+// Models outside the catalog are served from /v1 and `/chat/<model id>`.
+function getHttpApiVersion(modelId: string) {
+  return getSparkModelInfo(modelId)?.httpApiVersion ?? 'v1';
+}
+
+function getWebSocketEndpoint(
+  modelId: string,
+): SparkModelInfo['webSocket'] {
+  return (
+    getSparkModelInfo(modelId)?.webSocket ?? {
+      path: `/chat/${modelId}`,
+      domain: modelId,
+    }
+  );
+}
+
 export const spark = createSparkProvider();
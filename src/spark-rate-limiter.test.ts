@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { releaseOnStreamEnd, SparkRateLimiter, withSparkRateLimit } from "./spark-rate-limiter"
+
+describe("SparkRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("lets a burst through and refills at the QPS rate", async () => {
+    const limiter = new SparkRateLimiter({ qps: 2 })
+    const granted: number[] = []
+
+    for (let i = 0; i < 4; i++) {
+      limiter.acquire({ modelId: "lite", credential: "a" }).then(() => granted.push(i))
+    }
+    await vi.advanceTimersByTimeAsync(0)
+    expect(granted).toStrictEqual([0, 1])
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(granted).toStrictEqual([0, 1, 2])
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(granted).toStrictEqual([0, 1, 2, 3])
+  })
+
+  it("limits concurrency until a slot is released", async () => {
+    const limiter = new SparkRateLimiter({ maxConcurrency: 1 })
+
+    const first = await limiter.acquire({ modelId: "lite", credential: "a" })
+    let second: { waitMs: number } | undefined
+    limiter.acquire({ modelId: "lite", credential: "a" }).then((slot) => {
+      second = slot
+    })
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(second).toBeUndefined()
+
+    first.release()
+    first.release()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(second).toMatchObject({ waitMs: 100 })
+  })
+
+  it("scopes limits per credential and model and applies model overrides", async () => {
+    const limiter = new SparkRateLimiter({ maxConcurrency: 1, models: { "4.0Ultra": { maxConcurrency: 2 } } })
+    const granted: string[] = []
+    const acquire = (modelId: string, credential: string) =>
+      limiter.acquire({ modelId, credential }).then(() => granted.push(`${credential}/${modelId}`))
+
+    acquire("lite", "a")
+    acquire("lite", "a")
+    acquire("lite", "b")
+    acquire("4.0Ultra", "a")
+    acquire("4.0Ultra", "a")
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(granted).toStrictEqual(["a/lite", "b/lite", "a/4.0Ultra", "a/4.0Ultra"])
+  })
+
+  it("removes aborted calls from the queue", async () => {
+    const limiter = new SparkRateLimiter({ maxConcurrency: 1 })
+    const first = await limiter.acquire({ modelId: "lite", credential: "a" })
+    const controller = new AbortController()
+
+    const aborted = limiter.acquire({ modelId: "lite", credential: "a", abortSignal: controller.signal })
+    const next = limiter.acquire({ modelId: "lite", credential: "a" })
+    controller.abort(new Error("stop"))
+
+    await expect(aborted).rejects.toThrow("stop")
+    first.release()
+    await expect(next).resolves.toMatchObject({ waitMs: 0 })
+  })
+})
+
+describe("withSparkRateLimit", () => {
+  it("sends right away without a limiter", async () => {
+    await expect(withSparkRateLimit(async () => ({ value: 1 }), { acquireSlot: undefined, modelId: "lite" }))
+      .resolves
+      .toStrictEqual({ value: 1 })
+  })
+
+  it("releases the slot after the response or a failure", async () => {
+    const release = vi.fn()
+    const acquireSlot = vi.fn(async () => ({ waitMs: 5, release }))
+    const onSlot = vi.fn()
+
+    await withSparkRateLimit(async () => ({ value: 1 }), { acquireSlot, modelId: "lite", credentials: { apiKey: "k" }, onSlot })
+    await expect(withSparkRateLimit(() => Promise.reject(new Error("failed")), { acquireSlot, modelId: "lite" }))
+      .rejects
+      .toThrow("failed")
+
+    expect(acquireSlot).toHaveBeenCalledWith({ modelId: "lite", credentials: { apiKey: "k" }, abortSignal: undefined })
+    expect(onSlot).toHaveBeenCalledWith({ waitMs: 5, release })
+    expect(release).toHaveBeenCalledTimes(2)
+  })
+
+  it("holds the slot until a stream is fully read", async () => {
+    const release = vi.fn()
+
+    const { value } = await withSparkRateLimit(async () => ({
+      value: new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue("a")
+          controller.close()
+        },
+      }),
+    }), {
+      acquireSlot: async () => ({ waitMs: 0, release }),
+      modelId: "lite",
+      holdSlot: releaseOnStreamEnd,
+    })
+
+    expect(release).not.toHaveBeenCalled()
+    const reader = value.getReader()
+    expect(await reader.read()).toStrictEqual({ done: false, value: "a" })
+    expect(release).not.toHaveBeenCalled()
+    expect(await reader.read()).toStrictEqual({ done: true, value: undefined })
+    expect(release).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("releaseOnStreamEnd", () => {
+  it("releases the slot when the stream is cancelled", async () => {
+    const release = vi.fn()
+    const stream = releaseOnStreamEnd(new ReadableStream(), release)
+
+    await stream.cancel()
+
+    expect(release).toHaveBeenCalledTimes(1)
+  })
+})
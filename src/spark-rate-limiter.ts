@@ -0,0 +1,278 @@
+import type { SparkCredentials } from "./spark-credentials"
+
+/**
+ * Client-side limits for one model and credential.
+ */
+export interface SparkRateLimitSettings {
+  /**
+   * Requests per second (token bucket refill rate).
+   */
+  qps?: number
+  /**
+   * Bucket capacity, i.e. how many requests may start at once. Defaults to `qps`.
+   */
+  burst?: number
+  /**
+   * Maximum number of requests in flight. Streams count until they are closed.
+   */
+  maxConcurrency?: number
+}
+
+/**
+ * Rate limiter settings with optional per-model overrides.
+ */
+export interface SparkRateLimiterSettings extends SparkRateLimitSettings {
+  /**
+   * Limits per model ID, e.g. `{ lite: { qps: 2 }, '4.0Ultra': { maxConcurrency: 1 } }`.
+   */
+  models?: Record<string, SparkRateLimitSettings>
+}
+
+/**
+ * A granted request slot.
+ */
+export interface SparkRateLimitSlot {
+  /**
+   * Time spent waiting in the queue, in milliseconds.
+   */
+  waitMs: number
+  /**
+   * Frees the slot. Safe to call more than once.
+   */
+  release: () => void
+}
+
+/**
+ * Acquires a request slot for a model.
+ */
+export type SparkAcquireRateLimitSlot = (options: {
+  modelId: string
+  credentials?: SparkCredentials
+  abortSignal?: AbortSignal
+}) => Promise<SparkRateLimitSlot>
+
+interface Waiter {
+  enqueuedAt: number
+  resolve: (slot: SparkRateLimitSlot) => void
+  reject: (error: unknown) => void
+  abortSignal?: AbortSignal
+  onAbort?: () => void
+}
+
+interface Scope {
+  limits: SparkRateLimitSettings
+  tokens: number
+  lastRefill: number
+  inFlight: number
+  queue: Waiter[]
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Token-bucket QPS and concurrency limiter, scoped per credential and model ID.
+ * Queued calls are served in order and leave the queue when their abort signal fires.
+ */
+export class SparkRateLimiter {
+  private readonly settings: SparkRateLimiterSettings
+  private readonly scopes = new Map<string, Scope>()
+
+  constructor(settings: SparkRateLimiterSettings) {
+    this.settings = settings
+  }
+
+  /**
+   * Waits for a free slot.
+   *
+   * @param options.modelId - The model ID.
+   * @param options.credential - Identifies the credential the request is sent with.
+   * @param options.abortSignal - Removes the call from the queue when aborted.
+   * @returns The granted slot.
+   */
+  acquire({
+    modelId,
+    credential,
+    abortSignal,
+  }: {
+    modelId: string
+    credential: string
+    abortSignal?: AbortSignal
+  }): Promise<SparkRateLimitSlot> {
+    if (abortSignal?.aborted) {
+      return Promise.reject(abortSignal.reason)
+    }
+
+    const scope = this.getScope(`${credential}\u0000${modelId}`, modelId)
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { enqueuedAt: Date.now(), resolve, reject, abortSignal }
+
+      if (abortSignal != null) {
+        waiter.onAbort = () => {
+          const index = scope.queue.indexOf(waiter)
+          if (index >= 0) {
+            scope.queue.splice(index, 1)
+            reject(abortSignal.reason)
+          }
+        }
+        abortSignal.addEventListener("abort", waiter.onAbort, { once: true })
+      }
+
+      scope.queue.push(waiter)
+      this.drain(scope)
+    })
+  }
+
+  private getScope(key: string, modelId: string): Scope {
+    let scope = this.scopes.get(key)
+    if (scope == null) {
+      const { models, ...defaults } = this.settings
+      const limits = { ...defaults, ...models?.[modelId] }
+      scope = {
+        limits,
+        tokens: limits.burst ?? limits.qps ?? 0,
+        lastRefill: Date.now(),
+        inFlight: 0,
+        queue: [],
+      }
+      this.scopes.set(key, scope)
+    }
+    return scope
+  }
+
+  private drain(scope: Scope) {
+    const { qps, burst, maxConcurrency } = scope.limits
+
+    while (scope.queue.length > 0) {
+      if (maxConcurrency != null && scope.inFlight >= maxConcurrency) {
+        // Resumed when a slot is released.
+        return
+      }
+
+      if (qps != null && qps > 0) {
+        const now = Date.now()
+        const capacity = Math.max(1, burst ?? qps)
+        scope.tokens = Math.min(
+          capacity,
+          scope.tokens + ((now - scope.lastRefill) / 1000) * qps,
+        )
+        scope.lastRefill = now
+
+        if (scope.tokens < 1) {
+          if (scope.timer == null) {
+            scope.timer = setTimeout(() => {
+              scope.timer = undefined
+              this.drain(scope)
+            }, Math.ceil(((1 - scope.tokens) / qps) * 1000))
+          }
+          return
+        }
+        scope.tokens -= 1
+      }
+
+      const waiter = scope.queue.shift()!
+      if (waiter.onAbort != null) {
+        waiter.abortSignal?.removeEventListener("abort", waiter.onAbort)
+      }
+      scope.inFlight++
+
+      let released = false
+      waiter.resolve({
+        waitMs: Date.now() - waiter.enqueuedAt,
+        release: () => {
+          if (released) {
+            return
+          }
+          released = true
+          scope.inFlight--
+          this.drain(scope)
+        },
+      })
+    }
+  }
+}
+
+/**
+ * Sends a request once it has been granted a rate limit slot.
+ *
+ * @param send - Sends the request.
+ * @param options.acquireSlot - Acquires a slot. Without it the request is sent right away.
+ * @param options.modelId - The model ID.
+ * @param options.credentials - Credentials of the selected pool key, if any.
+ * @param options.abortSignal - Removes the request from the queue when aborted.
+ * @param options.holdSlot - Ties the slot to the response value instead of releasing it when `send` resolves.
+ * @param options.onSlot - Called with the granted slot.
+ * @returns The response of `send`.
+ */
+export async function withSparkRateLimit<R extends { value: unknown }>(
+  send: () => PromiseLike<R>,
+  {
+    acquireSlot,
+    modelId,
+    credentials,
+    abortSignal,
+    holdSlot,
+    onSlot,
+  }: {
+    acquireSlot: SparkAcquireRateLimitSlot | undefined
+    modelId: string
+    credentials?: SparkCredentials
+    abortSignal?: AbortSignal
+    holdSlot?: (value: R["value"], release: () => void) => R["value"]
+    onSlot?: (slot: SparkRateLimitSlot) => void
+  },
+): Promise<R> {
+  const slot = await acquireSlot?.({ modelId, credentials, abortSignal })
+  if (slot == null) {
+    return send()
+  }
+  onSlot?.(slot)
+
+  try {
+    const result = await send()
+    if (holdSlot == null) {
+      slot.release()
+      return result
+    }
+    return { ...result, value: holdSlot(result.value, slot.release) }
+  }
+  catch (error) {
+    slot.release()
+    throw error
+  }
+}
+
+/**
+ * Wraps a stream so that a rate limit slot is released once the stream is
+ * fully read, fails or is cancelled.
+ *
+ * @param stream - The response stream.
+ * @param release - Releases the slot.
+ * @returns A stream with the same contents.
+ */
+export function releaseOnStreamEnd<T>(
+  stream: ReadableStream<T>,
+  release: () => void,
+): ReadableStream<T> {
+  const reader = stream.getReader()
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          release()
+          controller.close()
+          return
+        }
+        controller.enqueue(value)
+      }
+      catch (error) {
+        release()
+        controller.error(error)
+      }
+    },
+    async cancel(reason) {
+      release()
+      await reader.cancel(reason)
+    },
+  })
+}
@@ -0,0 +1,83 @@
+import type { SparkCredentials } from "./spark-credentials"
+import type { SparkKeyPool } from "./spark-key-pool"
+import type { SparkAcquireRateLimitSlot } from "./spark-rate-limiter"
+import type { SparkRetrySettings } from "./spark-retry"
+import { withSparkKeyPool } from "./spark-key-pool"
+import { withSparkRateLimit } from "./spark-rate-limiter"
+import { withSparkRetry } from "./spark-retry"
+
+/**
+ * The request policies of a model, as configured on the provider.
+ */
+export interface SparkRequestConfig {
+  retry?: SparkRetrySettings
+  acquireRateLimitSlot?: SparkAcquireRateLimitSlot
+  keyPool?: SparkKeyPool
+  /**
+   * Resolves the credentials of an attempt from the selected pool key. The
+   * result is passed to both the rate limiter and the request.
+   */
+  resolveCredentials?: (
+    modelId: string,
+    poolKey?: SparkCredentials,
+  ) => PromiseLike<SparkCredentials | undefined>
+}
+
+/**
+ * Sends a request with the key pool, rate limiter and retry policy of a model applied.
+ * Every attempt picks its own key, resolves its credentials once and waits for
+ * its own rate limit slot.
+ *
+ * @param send - Sends the request once with the resolved credentials.
+ * @param options.modelId - The model ID.
+ * @param options.config - The request policies of the model.
+ * @param options.abortSignal - Cancels queueing, backoff and the request.
+ * @param options.holdSlot - Ties the slot to the response value instead of releasing it when `send` resolves.
+ * @returns The response, together with the total time spent in the rate limiter queue (if any),
+ *          the alias of the pool key that served it and when the successful attempt was sent.
+ */
+export async function sendSparkRequest<T>(
+  send: (credentials: SparkCredentials | undefined) => PromiseLike<{ responseHeaders?: Record<string, string>, value: T }>,
+  {
+    modelId,
+    config,
+    abortSignal,
+    holdSlot,
+  }: {
+    modelId: string
+    config: SparkRequestConfig
+    abortSignal: AbortSignal | undefined
+    holdSlot?: (value: T, release: () => void) => T
+  },
+): Promise<{ responseHeaders?: Record<string, string>, value: T, queueWaitMs?: number, keyAlias?: string, sentAt: number }> {
+  let queueWaitMs: number | undefined
+  let sentAt = Date.now()
+
+  const { response, keyAlias } = await withSparkRetry(
+    () => withSparkKeyPool(
+      async (key) => {
+        const credentials = config.resolveCredentials != null
+          ? await config.resolveCredentials(modelId, key)
+          : key
+        return withSparkRateLimit(() => {
+          // Queueing and backoff happen before this point.
+          sentAt = Date.now()
+          return send(credentials)
+        }, {
+          acquireSlot: config.acquireRateLimitSlot,
+          modelId,
+          credentials,
+          abortSignal,
+          holdSlot,
+          onSlot: (slot) => {
+            queueWaitMs = (queueWaitMs ?? 0) + slot.waitMs
+          },
+        })
+      },
+      { keyPool: config.keyPool, modelId, abortSignal },
+    ),
+    { retry: config.retry, abortSignal },
+  )
+
+  return { ...response, queueWaitMs, keyAlias, sentAt }
+}
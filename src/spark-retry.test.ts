@@ -0,0 +1,165 @@
+import { APICallError } from "@ai-sdk/provider"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { isRetryableSparkError, sleep, withSparkRetry } from "./spark-retry"
+
+function createError({
+  code = 11202,
+  statusCode = 429,
+  responseHeaders,
+}: {
+  code?: number
+  statusCode?: number
+  responseHeaders?: Record<string, string>
+} = {}) {
+  return new APICallError({
+    message: "Request failed",
+    url: "https://spark-api-open.xf-yun.com/v1/chat/completions",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+    data: { code, message: "Request failed" },
+  })
+}
+
+/**
+ * Records the times at which the attempts of a call start.
+ */
+function createFailingCall(errors: unknown[]) {
+  const startedAt: number[] = []
+  const fn = vi.fn(async () => {
+    startedAt.push(Date.now())
+    const error = errors.shift()
+    if (error != null) {
+      throw error
+    }
+    return "ok"
+  })
+  return { fn, startedAt }
+}
+
+describe("isRetryableSparkError", () => {
+  it("retries rate limits and server errors", () => {
+    expect(isRetryableSparkError(createError({ code: 11202 }))).toBe(true)
+    expect(isRetryableSparkError(createError({ code: 10012, statusCode: 200 }))).toBe(true)
+    expect(isRetryableSparkError(createError({ code: 10016, statusCode: 200 }))).toBe(false)
+    expect(isRetryableSparkError(new Error("network"))).toBe(false)
+  })
+})
+
+describe("withSparkRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it("attempts the call once without retry settings", async () => {
+    const error = createError()
+    const { fn } = createFailingCall([error])
+
+    await expect(withSparkRetry(fn, { retry: undefined })).rejects.toBe(error)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it("backs off exponentially up to the maximum delay", async () => {
+    const { fn, startedAt } = createFailingCall([createError(), createError(), createError()])
+
+    const result = withSparkRetry(fn, {
+      retry: { maxAttempts: 4, initialDelayMs: 100, backoffFactor: 3, maxDelayMs: 500, jitter: false },
+    })
+    await vi.runAllTimersAsync()
+
+    await expect(result).resolves.toBe("ok")
+    expect(startedAt).toStrictEqual([0, 100, 400, 900])
+  })
+
+  it("randomizes the delays with jitter", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5)
+    const { fn, startedAt } = createFailingCall([createError()])
+
+    const result = withSparkRetry(fn, { retry: { initialDelayMs: 100 } })
+    await vi.runAllTimersAsync()
+
+    await expect(result).resolves.toBe("ok")
+    expect(startedAt).toStrictEqual([0, 50])
+  })
+
+  it("stops after the maximum number of attempts", async () => {
+    const { fn } = createFailingCall([createError(), createError(), createError()])
+
+    const result = withSparkRetry(fn, { retry: { maxAttempts: 2, jitter: false } })
+    const assertion = expect(result).rejects.toBeInstanceOf(APICallError)
+    await vi.runAllTimersAsync()
+
+    await assertion
+    expect(fn).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not retry errors that are not retryable", async () => {
+    const error = createError({ code: 10907, statusCode: 200 })
+    const { fn } = createFailingCall([error])
+
+    await expect(withSparkRetry(fn, { retry: {} })).rejects.toBe(error)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it("uses the custom retry predicate", async () => {
+    const shouldRetry = vi.fn(() => false)
+    const { fn } = createFailingCall([createError()])
+
+    await expect(withSparkRetry(fn, { retry: { shouldRetry } })).rejects.toBeInstanceOf(APICallError)
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(APICallError), 1)
+  })
+
+  it.each([
+    ["retry-after-ms", "250", 250],
+    ["retry-after", "2", 2000],
+    ["retry-after", new Date(3000).toUTCString(), 3000],
+  ])("waits for the %s header %s", async (header, value, delay) => {
+    const { fn, startedAt } = createFailingCall([createError({ responseHeaders: { [header]: value } })])
+
+    const result = withSparkRetry(fn, { retry: { maxDelayMs: 10_000 } })
+    await vi.runAllTimersAsync()
+
+    await expect(result).resolves.toBe("ok")
+    expect(startedAt).toStrictEqual([0, delay])
+  })
+
+  it("caps the Retry-After delay and can ignore it", async () => {
+    const headers = { "retry-after": "60" }
+    const capped = createFailingCall([createError({ responseHeaders: headers })])
+    const ignored = createFailingCall([createError({ responseHeaders: headers })])
+
+    const results = [
+      withSparkRetry(capped.fn, { retry: { maxDelayMs: 1000 } }),
+      withSparkRetry(ignored.fn, { retry: { respectRetryAfter: false, initialDelayMs: 10, jitter: false } }),
+    ]
+    await vi.runAllTimersAsync()
+
+    await expect(Promise.all(results)).resolves.toStrictEqual(["ok", "ok"])
+    expect(capped.startedAt).toStrictEqual([0, 1000])
+    expect(ignored.startedAt).toStrictEqual([0, 10])
+  })
+
+  it("rejects with the abort reason during the backoff", async () => {
+    const controller = new AbortController()
+    const { fn } = createFailingCall([createError()])
+
+    const result = withSparkRetry(fn, { retry: { initialDelayMs: 1000, jitter: false }, abortSignal: controller.signal })
+    const assertion = expect(result).rejects.toThrow("stop")
+    await vi.advanceTimersByTimeAsync(500)
+    controller.abort(new Error("stop"))
+
+    await assertion
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("sleep", () => {
+  it("rejects right away when the signal is already aborted", async () => {
+    await expect(sleep(1000, AbortSignal.abort(new Error("stop")))).rejects.toThrow("stop")
+  })
+})
@@ -0,0 +1,158 @@
+import { APICallError } from "@ai-sdk/provider"
+import { getSparkErrorInfo } from "./spark-error"
+
+/**
+ * Retry and backoff policy for Spark API calls.
+ */
+export interface SparkRetrySettings {
+  /**
+   * Maximum number of attempts, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number
+  /**
+   * Delay before the first retry in milliseconds. Defaults to 500.
+   */
+  initialDelayMs?: number
+  /**
+   * Upper bound for a single delay in milliseconds. Defaults to 10000.
+   */
+  maxDelayMs?: number
+  /**
+   * Multiplier applied to the delay after each attempt. Defaults to 2.
+   */
+  backoffFactor?: number
+  /**
+   * Randomizes each delay between 0 and the computed backoff ("full jitter"). Defaults to true.
+   */
+  jitter?: boolean
+  /**
+   * Waits for the `Retry-After` response header when present. Defaults to true.
+   */
+  respectRetryAfter?: boolean
+  /**
+   * Decides whether an error is retried. Defaults to the retryability of the
+   * Spark error code (rate limits and server errors).
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean
+}
+
+/**
+ * Default retry predicate based on Spark error codes.
+ *
+ * @param error - The error thrown by the attempt.
+ * @returns Whether the call should be retried.
+ */
+export function isRetryableSparkError(error: unknown): boolean {
+  const info = getSparkErrorInfo(error)
+  if (info != null) {
+    return info.isRetryable
+  }
+  return APICallError.isInstance(error) && error.isRetryable
+}
+
+/**
+ * Runs a Spark API call and retries it according to the retry settings.
+ *
+ * @param fn - The call to run. Receives the 1-based attempt number.
+ * @param options.retry - The retry settings. Without settings the call is attempted once.
+ * @param options.abortSignal - Aborts pending delays.
+ * @returns The result of the first successful attempt.
+ */
+export async function withSparkRetry<T>(
+  fn: (attempt: number) => PromiseLike<T>,
+  {
+    retry,
+    abortSignal,
+  }: {
+    retry: SparkRetrySettings | undefined
+    abortSignal?: AbortSignal
+  },
+): Promise<T> {
+  const maxAttempts = retry != null ? Math.max(1, retry.maxAttempts ?? 3) : 1
+  const shouldRetry = retry?.shouldRetry ?? isRetryableSparkError
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt)
+    }
+    catch (error) {
+      if (
+        retry == null
+        || attempt >= maxAttempts
+        || abortSignal?.aborted
+        || !shouldRetry(error, attempt)
+      ) {
+        throw error
+      }
+      await sleep(getRetryDelay(error, attempt, retry), abortSignal)
+    }
+  }
+}
+
+function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  {
+    initialDelayMs = 500,
+    maxDelayMs = 10_000,
+    backoffFactor = 2,
+    jitter = true,
+    respectRetryAfter = true,
+  }: SparkRetrySettings,
+) {
+  if (respectRetryAfter) {
+    const retryAfterMs = getRetryAfterMs(error)
+    if (retryAfterMs != null) {
+      return Math.min(retryAfterMs, maxDelayMs)
+    }
+  }
+  const backoff = Math.min(initialDelayMs * backoffFactor ** (attempt - 1), maxDelayMs)
+  return jitter ? Math.random() * backoff : backoff
+}
+
+/**
+ * Reads `retry-after-ms` or `retry-after` (seconds or HTTP date) from the error response headers.
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  if (!APICallError.isInstance(error) || error.responseHeaders == null) {
+    return undefined
+  }
+  const headers = error.responseHeaders
+
+  const retryAfterMs = Number.parseFloat(headers["retry-after-ms"] ?? "")
+  if (!Number.isNaN(retryAfterMs)) {
+    return Math.max(0, retryAfterMs)
+  }
+
+  const retryAfter = headers["retry-after"]
+  if (retryAfter == null) {
+    return undefined
+  }
+  const seconds = Number.parseFloat(retryAfter)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(retryAfter)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Waits for the given time. Rejects with the abort reason when the signal is aborted.
+ */
+export function sleep(ms: number, abortSignal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(abortSignal?.reason)
+    }
+    const timeout = setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    abortSignal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
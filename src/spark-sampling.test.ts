@@ -0,0 +1,126 @@
+import type { SparkChatModelId } from "./spark-chat-settings"
+import { InvalidArgumentError } from "@ai-sdk/provider"
+import { describe, expect, it } from "vitest"
+import { getSparkModelInfo } from "./spark-model-catalog"
+import { normalizeSparkSampling } from "./spark-sampling"
+
+describe("normalizeSparkSampling", () => {
+  it.each([
+    { setting: "temperature" as const, value: -0.5, clamped: 0, range: "[0, 2]" },
+    { setting: "temperature" as const, value: 2.5, clamped: 2, range: "[0, 2]" },
+    { setting: "topP" as const, value: -0.1, clamped: 0, range: "[0, 1]" },
+    { setting: "topP" as const, value: 1.5, clamped: 1, range: "[0, 1]" },
+    { setting: "topK" as const, value: 0, clamped: 1, range: "[1, 6]" },
+    { setting: "topK" as const, value: 10, clamped: 6, range: "[1, 6]" },
+  ])("clamps $setting $value to $clamped", ({ setting, value, clamped, range }) => {
+    const result = normalizeSparkSampling({
+      settings: { [setting]: value },
+      modelId: "4.0Ultra",
+      modelInfo: getSparkModelInfo("4.0Ultra"),
+    })
+
+    expect(result[setting]).toBe(clamped)
+    expect(result.warnings).toStrictEqual([
+      {
+        type: "unsupported-setting",
+        setting,
+        details: `${setting} ${value} is outside the range ${range} of Spark 4.0 Ultra and was clamped to ${clamped}.`,
+      },
+    ])
+  })
+
+  it.each([
+    { setting: "temperature" as const, value: 0 },
+    { setting: "temperature" as const, value: 2 },
+    { setting: "topP" as const, value: 1 },
+    { setting: "topK" as const, value: 1 },
+    { setting: "topK" as const, value: 6 },
+    { setting: "maxTokens" as const, value: 8192 },
+  ])("keeps $setting $value at the bounds", ({ setting, value }) => {
+    const result = normalizeSparkSampling({
+      settings: { [setting]: value },
+      modelId: "4.0Ultra",
+      modelInfo: getSparkModelInfo("4.0Ultra"),
+    })
+
+    expect(result[setting]).toBe(value)
+    expect(result.warnings).toStrictEqual([])
+  })
+
+  it.each([
+    { setting: "temperature" as const, value: 3 },
+    { setting: "topP" as const, value: 2 },
+    { setting: "topK" as const, value: 7 },
+    { setting: "maxTokens" as const, value: 10000 },
+  ])("rejects $setting $value with outOfRange: reject", ({ setting, value }) => {
+    let error: unknown
+    try {
+      normalizeSparkSampling({
+        settings: { [setting]: value },
+        modelId: "4.0Ultra",
+        modelInfo: getSparkModelInfo("4.0Ultra"),
+        outOfRange: "reject",
+      })
+    }
+    catch (caught) {
+      error = caught
+    }
+
+    expect(InvalidArgumentError.isInstance(error)).toBe(true)
+    expect(error).toMatchObject({ argument: setting })
+  })
+
+  it.each([
+    { modelId: "lite", maxTokens: 4096 },
+    { modelId: "generalv3", maxTokens: 8192 },
+    { modelId: "pro-128k", maxTokens: 4096 },
+    { modelId: "generalv3.5", maxTokens: 8192 },
+    { modelId: "max-32k", maxTokens: 8192 },
+    { modelId: "4.0Ultra", maxTokens: 8192 },
+    { modelId: "x1", maxTokens: 32768 },
+    { modelId: "general", maxTokens: 4096 },
+  ] satisfies Array<{ modelId: SparkChatModelId, maxTokens: number }>)(
+    "limits maxTokens of $modelId to $maxTokens",
+    ({ modelId, maxTokens }) => {
+      const modelInfo = getSparkModelInfo(modelId)
+
+      expect(normalizeSparkSampling({ settings: { maxTokens }, modelId, modelInfo }).maxTokens).toBe(maxTokens)
+      expect(normalizeSparkSampling({ settings: { maxTokens: maxTokens + 1 }, modelId, modelInfo }).maxTokens).toBe(maxTokens)
+      expect(normalizeSparkSampling({ settings: { maxTokens: 0 }, modelId, modelInfo }).maxTokens).toBe(1)
+    },
+  )
+
+  it("uses the temperature range of the model", () => {
+    const result = normalizeSparkSampling({
+      settings: { temperature: 1.5 },
+      modelId: "general",
+      modelInfo: getSparkModelInfo("general"),
+    })
+
+    expect(result.temperature).toBe(1)
+    expect(result.warnings).toMatchObject([{ setting: "temperature", details: expect.stringContaining("[0, 1] of Spark V1.5") }])
+  })
+
+  it("applies the general ranges and leaves maxTokens unchecked for unknown models", () => {
+    const result = normalizeSparkSampling({
+      settings: { maxTokens: 100000, temperature: 3 },
+      modelId: "custom",
+    })
+
+    expect(result).toMatchObject({ maxTokens: 100000, temperature: 2 })
+    expect(result.warnings).toMatchObject([{ setting: "temperature", details: expect.stringContaining("of custom") }])
+  })
+
+  it("drops seed and frequencyPenalty with a warning", () => {
+    const result = normalizeSparkSampling({
+      settings: { seed: 42, frequencyPenalty: 0.5 },
+      modelId: "4.0Ultra",
+      modelInfo: getSparkModelInfo("4.0Ultra"),
+      outOfRange: "reject",
+    })
+
+    expect(result).not.toHaveProperty("seed")
+    expect(result).not.toHaveProperty("frequencyPenalty")
+    expect(result.warnings.map(warning => warning.type === "unsupported-setting" && warning.setting)).toStrictEqual(["frequencyPenalty", "seed"])
+  })
+})
@@ -0,0 +1,126 @@
+import type { LanguageModelV1CallWarning } from "@ai-sdk/provider"
+import type { SparkModelInfo } from "./spark-model-catalog"
+import { InvalidArgumentError } from "@ai-sdk/provider"
+
+/**
+ * An inclusive range of a sampling setting.
+ */
+export interface SparkSamplingRange {
+  min: number
+  max: number
+}
+
+/**
+ * Accepted ranges of the sampling settings of a model.
+ */
+export interface SparkSamplingRanges {
+  temperature: SparkSamplingRange
+  topP: SparkSamplingRange
+  topK: SparkSamplingRange
+}
+
+/**
+ * What happens to sampling settings outside of the range of the model:
+ *
+ * - `clamp`: the value is clamped to the range, with a warning.
+ * - `reject`: the call fails with an `InvalidArgumentError`.
+ */
+export type SparkOutOfRangeSettings = "clamp" | "reject"
+
+// https://www.xfyun.cn/doc/spark/HTTP%E8%B0%83%E7%94%A8%E6%96%87%E6%A1%A3.html#_3-%E8%AF%B7%E6%B1%82%E8%AF%B4%E6%98%8E
+export const defaultSparkSamplingRanges: SparkSamplingRanges = {
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  topK: { min: 1, max: 6 },
+}
+
+/**
+ * Maps the sampling settings of a call to Spark's accepted ranges.
+ * `seed` and `frequencyPenalty` are ignored by Spark and dropped with a warning.
+ *
+ * @param options.settings - The sampling settings of the call.
+ * @param options.modelId - The model ID, used in messages.
+ * @param options.modelInfo - Catalog entry of the model. Without it, only the
+ *                            general ranges apply and `maxTokens` is not checked.
+ * @param options.outOfRange - Whether out-of-range values are clamped or rejected.
+ * @returns The settings to send and the warnings.
+ * @throws InvalidArgumentError when a value is out of range and `outOfRange` is `reject`.
+ */
+export function normalizeSparkSampling({
+  settings,
+  modelId,
+  modelInfo,
+  outOfRange = "clamp",
+}: {
+  settings: {
+    maxTokens?: number
+    temperature?: number
+    topP?: number
+    topK?: number
+    frequencyPenalty?: number
+    seed?: number
+  }
+  modelId: string
+  modelInfo?: SparkModelInfo
+  outOfRange?: SparkOutOfRangeSettings
+}): {
+    maxTokens: number | undefined
+    temperature: number | undefined
+    topP: number | undefined
+    topK: number | undefined
+    warnings: LanguageModelV1CallWarning[]
+  } {
+  const warnings: LanguageModelV1CallWarning[] = []
+  const ranges = { ...defaultSparkSamplingRanges, ...modelInfo?.samplingRanges }
+  const modelName = modelInfo?.name ?? modelId
+
+  const normalize = (
+    setting: "maxTokens" | "temperature" | "topP" | "topK",
+    value: number | undefined,
+    range: SparkSamplingRange | undefined,
+  ) => {
+    if (value == null || range == null || (value >= range.min && value <= range.max)) {
+      return value
+    }
+    const message = `${setting} ${value} is outside the range [${range.min}, ${range.max}] of ${modelName}`
+    if (outOfRange === "reject") {
+      throw new InvalidArgumentError({ argument: setting, message: `${message}.` })
+    }
+    const clamped = Math.min(Math.max(value, range.min), range.max)
+    warnings.push({
+      type: "unsupported-setting",
+      setting,
+      details: `${message} and was clamped to ${clamped}.`,
+    })
+    return clamped
+  }
+
+  const normalized = {
+    maxTokens: normalize(
+      "maxTokens",
+      settings.maxTokens,
+      modelInfo != null ? { min: 1, max: modelInfo.maxOutputTokens } : undefined,
+    ),
+    temperature: normalize("temperature", settings.temperature, ranges.temperature),
+    topP: normalize("topP", settings.topP, ranges.topP),
+    topK: normalize("topK", settings.topK, ranges.topK),
+    warnings,
+  }
+
+  if (settings.frequencyPenalty != null) {
+    warnings.push({
+      type: "unsupported-setting",
+      setting: "frequencyPenalty",
+      details: "Spark ignores frequency_penalty; it is not sent.",
+    })
+  }
+  if (settings.seed != null) {
+    warnings.push({
+      type: "unsupported-setting",
+      setting: "seed",
+      details: "Spark ignores seed; it is not sent.",
+    })
+  }
+
+  return normalized
+}
@@ -0,0 +1,173 @@
+import type { JSONSchema7, LanguageModelV1StreamPart } from "@ai-sdk/provider"
+import { convertArrayToReadableStream, convertReadableStreamToArray } from "@ai-sdk/provider-utils/test"
+import { describe, expect, it } from "vitest"
+import {
+  createSparkStructuredOutputTransform,
+  extractSparkJson,
+  injectSparkJsonSchema,
+  SparkJsonExtractor,
+  validateSparkJsonReply,
+  validateSparkJsonSchema,
+} from "./spark-structured-output"
+
+const schema: JSONSchema7 = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+  },
+  required: ["name"],
+  additionalProperties: false,
+}
+
+describe("injectSparkJsonSchema", () => {
+  it("appends the schema to the system message", () => {
+    const [system, user] = injectSparkJsonSchema([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: [{ type: "text", text: "Hi" }] },
+    ], { type: "object" })
+
+    expect(system).toMatchObject({ role: "system" })
+    expect(system.content).toMatch(/^Be brief\.\n\nRespond only with a JSON value/)
+    expect(system.content).toContain("{\"type\":\"object\"}")
+    expect(user.role).toBe("user")
+  })
+
+  it("adds a system message when there is none", () => {
+    expect(injectSparkJsonSchema([], { type: "object" })).toMatchObject([{ role: "system" }])
+  })
+})
+
+describe("extractSparkJson", () => {
+  it("keeps plain JSON as is", () => {
+    expect(extractSparkJson(" {\"name\":\"Ada\"} ")).toStrictEqual({ text: "{\"name\":\"Ada\"}", stripped: false })
+  })
+
+  it("prefers a fenced code block", () => {
+    expect(extractSparkJson("Here you go:\n```json\n{\"name\":\"Ada\"}\n```\nAnything else?"))
+      .toStrictEqual({ text: "{\"name\":\"Ada\"}", stripped: true })
+  })
+
+  it("skips brackets in prose before the JSON", () => {
+    expect(extractSparkJson("As requested (see [note]) {but briefly}: [{\"name\":\"Ada\"}] Done."))
+      .toStrictEqual({ text: "[{\"name\":\"Ada\"}]", stripped: true })
+  })
+
+  it("falls back to the first candidate when nothing is valid JSON", () => {
+    expect(extractSparkJson("Result: {\"name\": \"Ada\",}")).toStrictEqual({ text: "{\"name\": \"Ada\",}", stripped: true })
+    expect(extractSparkJson("No JSON here.")).toStrictEqual({ text: "No JSON here.", stripped: false })
+  })
+})
+
+describe("SparkJsonExtractor", () => {
+  it("extracts JSON split across deltas", () => {
+    const extractor = new SparkJsonExtractor()
+
+    const output = ["Sure: ", "{", "\"name\":\"a}", "\\\"b\"", "} ", "Bye"]
+      .map(delta => extractor.process(delta))
+
+    expect(output).toStrictEqual(["", "", "{\"name\":\"a}", "\\\"b\"", "}", ""])
+    expect(extractor.complete).toBe(true)
+    expect(extractor.stripped).toBe(true)
+  })
+
+  it("holds an opening bracket back until it is known to start JSON", () => {
+    const extractor = new SparkJsonExtractor()
+
+    expect(extractor.process("[")).toBe("")
+    expect(extractor.found).toBe(false)
+    expect(extractor.process("sic] [ ")).toBe("")
+    expect(extractor.process("1]")).toBe("[ 1]")
+    expect(extractor.complete).toBe(true)
+  })
+})
+
+describe("validateSparkJsonSchema", () => {
+  it("reports errors with JSON paths", () => {
+    expect(validateSparkJsonSchema({ age: -1.5, extra: true }, schema)).toStrictEqual([
+      "$.name is required",
+      "$.age must be integer, got number",
+      "$.extra is not allowed",
+    ])
+  })
+
+  it("validates arrays, enums and combinators", () => {
+    const listSchema: JSONSchema7 = {
+      type: "array",
+      maxItems: 2,
+      items: { anyOf: [{ type: "string", enum: ["a", "b"] }, { type: "null" }] },
+    }
+
+    expect(validateSparkJsonSchema(["a", null], listSchema)).toStrictEqual([])
+    expect(validateSparkJsonSchema(["c", 1, "a"], listSchema)).toStrictEqual([
+      "$ must have at most 2 items",
+      "$[0] does not match any of the allowed schemas",
+      "$[1] does not match any of the allowed schemas",
+    ])
+    expect(validateSparkJsonSchema(1, { oneOf: [{ type: "number" }, { type: "integer" }] }))
+      .toStrictEqual(["$ must match exactly one of the allowed schemas, matched 2"])
+  })
+
+  it("resolves local references", () => {
+    const treeSchema: JSONSchema7 = {
+      definitions: { node: { type: "object", properties: { children: { type: "array", items: { $ref: "#/definitions/node" } } } } },
+      $ref: "#/definitions/node",
+    }
+
+    expect(validateSparkJsonSchema({ children: [{ children: [] }] }, treeSchema)).toStrictEqual([])
+    expect(validateSparkJsonSchema({ children: [{ children: 1 }] }, treeSchema))
+      .toStrictEqual(["$.children[0].children must be array, got number"])
+    expect(validateSparkJsonSchema({}, { $ref: "#/definitions/missing" }))
+      .toStrictEqual(["$: cannot resolve #/definitions/missing"])
+  })
+
+  it("checks patterns and skips invalid ones", () => {
+    expect(validateSparkJsonSchema("abc", { pattern: "^\\d+$" })).toStrictEqual(["$ must match ^\\d+$"])
+    expect(validateSparkJsonSchema("abc", { pattern: "(?<" })).toStrictEqual([])
+  })
+})
+
+describe("validateSparkJsonReply", () => {
+  it("reports invalid JSON", () => {
+    expect(validateSparkJsonReply("{", schema)).toMatchObject([expect.stringMatching(/^The reply is not valid JSON: /)])
+  })
+})
+
+describe("createSparkStructuredOutputTransform", () => {
+  function finish(): LanguageModelV1StreamPart {
+    return { type: "finish", finishReason: "stop", usage: { promptTokens: 1, completionTokens: 1 } }
+  }
+
+  it("streams the extracted JSON and reports the validation on the finish part", async () => {
+    const parts = await convertReadableStreamToArray(convertArrayToReadableStream<LanguageModelV1StreamPart>([
+      { type: "text-delta", textDelta: "```json\n{\"name\":" },
+      { type: "text-delta", textDelta: "\"Ada\"}\n```" },
+      finish(),
+    ]).pipeThrough(createSparkStructuredOutputTransform(schema)))
+
+    expect(parts).toStrictEqual([
+      { type: "text-delta", textDelta: "{\"name\":" },
+      { type: "text-delta", textDelta: "\"Ada\"}" },
+      {
+        ...finish(),
+        providerMetadata: {
+          spark: { structuredOutput: { stripped: true, valid: true, errors: [], repairAttempts: 0 } },
+        },
+      },
+    ])
+  })
+
+  it("releases the raw text when no JSON is found", async () => {
+    const parts = await convertReadableStreamToArray(convertArrayToReadableStream<LanguageModelV1StreamPart>([
+      { type: "text-delta", textDelta: "Sorry, " },
+      { type: "text-delta", textDelta: "I cannot." },
+      finish(),
+    ]).pipeThrough(createSparkStructuredOutputTransform(schema)))
+
+    expect(parts[0]).toStrictEqual({ type: "text-delta", textDelta: "Sorry, I cannot." })
+    expect(parts[1]).toMatchObject({
+      type: "finish",
+      providerMetadata: { spark: { structuredOutput: { stripped: false, valid: false } } },
+    })
+  })
+})
@@ -0,0 +1,534 @@
+import type {
+  JSONSchema7,
+  JSONSchema7Definition,
+  LanguageModelV1CallWarning,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider"
+
+/**
+ * Settings of the prompt-based structured output emulation.
+ */
+export interface SparkStructuredOutputSettings {
+  /**
+   * How many times an invalid reply is sent back with the validation errors
+   * to be corrected. Only applies to non-streaming calls. Defaults to 0.
+   */
+  repairAttempts?: number
+}
+
+/**
+ * What the emulation did with a reply. Reported in `providerMetadata.spark.structuredOutput`.
+ */
+export interface SparkStructuredOutputReport {
+  /**
+   * Whether markdown fences or prose around the JSON were removed.
+   */
+  stripped: boolean
+  /**
+   * Whether the final reply matches the schema.
+   */
+  valid: boolean
+  /**
+   * Validation errors of the final reply.
+   */
+  errors: string[]
+  /**
+   * Number of repair round trips.
+   */
+  repairAttempts: number
+}
+
+/**
+ * Adds the JSON schema to the system prompt.
+ *
+ * @param prompt - The prompt.
+ * @param schema - The JSON schema the reply must match.
+ * @returns The prompt with the instruction appended to its system message.
+ */
+export function injectSparkJsonSchema(
+  prompt: LanguageModelV1Prompt,
+  schema: JSONSchema7,
+): LanguageModelV1Prompt {
+  const instruction = [
+    "Respond only with a JSON value that matches the following JSON schema.",
+    "Do not wrap it in markdown code fences and do not add explanations.",
+    JSON.stringify(schema),
+  ].join("\n")
+
+  const [first, ...rest] = prompt
+  if (first?.role === "system") {
+    return [{ ...first, content: `${first.content}\n\n${instruction}` }, ...rest]
+  }
+  return [{ role: "system", content: instruction }, ...prompt]
+}
+
+/**
+ * Builds the follow-up message of a repair round trip.
+ */
+export function createSparkJsonRepairMessage(errors: string[]): string {
+  return [
+    "Your reply does not match the JSON schema:",
+    ...errors.map(error => `- ${error}`),
+    "Reply again with only the corrected JSON.",
+  ].join("\n")
+}
+
+/**
+ * Extracts the first JSON object or array from text, skipping markdown fences
+ * and prose before and after it. Works incrementally on streamed text.
+ *
+ * An opening bracket is held back until the next non-whitespace character
+ * shows whether it starts JSON, so prose like `[sic]` is skipped.
+ */
+export class SparkJsonExtractor {
+  private phase: "before" | "opening" | "inside" | "after" = "before"
+  private pending = ""
+  private depth = 0
+  private inString = false
+  private escaped = false
+
+  /**
+   * Whether non-whitespace text around the JSON was skipped.
+   */
+  stripped = false
+
+  /**
+   * Whether a JSON object or array was found.
+   */
+  get found(): boolean {
+    return this.phase === "inside" || this.phase === "after"
+  }
+
+  /**
+   * Whether the JSON object or array was closed.
+   */
+  get complete(): boolean {
+    return this.phase === "after"
+  }
+
+  /**
+   * Processes the next piece of text.
+   *
+   * @returns The part of the text that belongs to the JSON value.
+   */
+  process(text: string): string {
+    let output = ""
+    for (const char of text) {
+      if (this.phase === "opening") {
+        if (char.trim() === "") {
+          this.pending += char
+          continue
+        }
+        if (startsJson(this.pending[0], char)) {
+          this.phase = "inside"
+          this.depth = 1
+          output += this.pending
+        }
+        else {
+          this.phase = "before"
+          this.stripped = true
+        }
+        this.pending = ""
+      }
+
+      switch (this.phase) {
+        case "before": {
+          if (char === "{" || char === "[") {
+            this.phase = "opening"
+            this.pending = char
+          }
+          else if (char.trim() !== "") {
+            this.stripped = true
+          }
+          break
+        }
+        case "inside": {
+          output += char
+          if (this.inString) {
+            if (this.escaped) {
+              this.escaped = false
+            }
+            else if (char === "\\") {
+              this.escaped = true
+            }
+            else if (char === "\"") {
+              this.inString = false
+            }
+          }
+          else if (char === "\"") {
+            this.inString = true
+          }
+          else if (char === "{" || char === "[") {
+            this.depth++
+          }
+          else if ((char === "}" || char === "]") && --this.depth === 0) {
+            this.phase = "after"
+          }
+          break
+        }
+        case "after": {
+          if (char.trim() !== "") {
+            this.stripped = true
+          }
+          break
+        }
+      }
+    }
+    return output
+  }
+}
+
+function startsJson(bracket: string, next: string) {
+  return bracket === "{"
+    ? next === "\"" || next === "}"
+    : /[[{"\]\d\-tfn]/.test(next)
+}
+
+/**
+ * Extracts the JSON value from a complete reply. A fenced code block that
+ * holds valid JSON is preferred; otherwise every opening bracket is tried
+ * until one starts a valid JSON object or array.
+ *
+ * @param text - The reply.
+ * @returns The JSON text (the original text when no JSON value is found) and whether anything was stripped.
+ */
+export function extractSparkJson(text: string): { text: string, stripped: boolean } {
+  const fenced = /```[\w-]*[^\S\n]*\n([\s\S]*?)```/.exec(text)?.[1]?.trim()
+  if (fenced != null && isJson(fenced)) {
+    return { text: fenced, stripped: true }
+  }
+
+  for (let start = text.search(/[[{]/); start !== -1; start = nextOpeningBracket(text, start + 1)) {
+    const extractor = new SparkJsonExtractor()
+    const json = extractor.process(text.slice(start))
+    if (extractor.complete && isJson(json)) {
+      return { text: json, stripped: json !== text.trim() }
+    }
+  }
+
+  // Nothing valid was found; the first candidate is validated to report the errors.
+  const extractor = new SparkJsonExtractor()
+  const json = extractor.process(text)
+  return extractor.found
+    ? { text: json, stripped: extractor.stripped }
+    : { text, stripped: false }
+}
+
+function nextOpeningBracket(text: string, from: number) {
+  const index = text.slice(from).search(/[[{]/)
+  return index === -1 ? -1 : from + index
+}
+
+function isJson(text: string) {
+  try {
+    JSON.parse(text)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * Parses a reply and validates it against the schema.
+ *
+ * @returns The validation errors; empty when the reply is valid.
+ */
+export function validateSparkJsonReply(text: string, schema: JSONSchema7): string[] {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  }
+  catch (error) {
+    return [`The reply is not valid JSON: ${(error as Error).message}`]
+  }
+  return validateSparkJsonSchema(value, schema)
+}
+
+/**
+ * Validates a value against a JSON schema. Supports the keywords that
+ * generated schemas use: types, `enum`, `const`, object properties, array items,
+ * length and range limits, `pattern`, `anyOf`/`oneOf`/`allOf` and local `$ref`s.
+ *
+ * @param value - The value.
+ * @param schema - The JSON schema.
+ * @returns The validation errors, with JSON paths.
+ */
+export function validateSparkJsonSchema(value: unknown, schema: JSONSchema7): string[] {
+  const errors: string[] = []
+  validate(value, schema, "$", schema, errors)
+  return errors
+}
+
+function validate(
+  value: unknown,
+  definition: JSONSchema7Definition,
+  path: string,
+  root: JSONSchema7,
+  errors: string[],
+): void {
+  if (definition === true) {
+    return
+  }
+  if (definition === false) {
+    errors.push(`${path} is not allowed`)
+    return
+  }
+
+  const schema = definition
+  if (schema.$ref != null) {
+    const resolved = resolveRef(schema.$ref, root)
+    if (resolved == null) {
+      errors.push(`${path}: cannot resolve ${schema.$ref}`)
+      return
+    }
+    validate(value, resolved, path, root, errors)
+    return
+  }
+
+  if (schema.type != null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((type: string) => matchesType(value, type))) {
+      errors.push(`${path} must be ${types.join(" or ")}, got ${describeType(value)}`)
+      return
+    }
+  }
+
+  if (schema.const !== undefined && !isDeepEqual(value, schema.const)) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`)
+  }
+  if (schema.enum != null && !schema.enum.some((option: unknown) => isDeepEqual(value, option))) {
+    errors.push(`${path} must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`)
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength != null && value.length < schema.minLength) {
+      errors.push(`${path} must have at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength != null && value.length > schema.maxLength) {
+      errors.push(`${path} must have at most ${schema.maxLength} characters`)
+    }
+    if (schema.pattern != null && !matchesPattern(value, schema.pattern)) {
+      errors.push(`${path} must match ${schema.pattern}`)
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum != null && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`)
+    }
+    if (schema.maximum != null && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`)
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      errors.push(`${path} must be > ${schema.exclusiveMinimum}`)
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      errors.push(`${path} must be < ${schema.exclusiveMaximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems != null && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems != null && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`)
+    }
+    if (schema.items != null) {
+      value.forEach((item, index) => {
+        const itemSchema = Array.isArray(schema.items)
+          ? schema.items[index] ?? schema.additionalItems ?? true
+          : schema.items as JSONSchema7Definition
+        validate(item, itemSchema, `${path}[${index}]`, root, errors)
+      })
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        errors.push(`${path}.${key} is required`)
+      }
+    }
+    const properties = schema.properties ?? {}
+    for (const [key, item] of Object.entries(value)) {
+      if (key in properties) {
+        validate(item, properties[key], `${path}.${key}`, root, errors)
+      }
+      else if (schema.additionalProperties != null) {
+        validate(item, schema.additionalProperties, `${path}.${key}`, root, errors)
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    validate(value, subschema, path, root, errors)
+  }
+  if (schema.anyOf != null && !schema.anyOf.some((subschema: JSONSchema7Definition) => matchesSubschema(value, subschema, path, root))) {
+    errors.push(`${path} does not match any of the allowed schemas`)
+  }
+  if (schema.oneOf != null) {
+    const matches = schema.oneOf.filter((subschema: JSONSchema7Definition) => matchesSubschema(value, subschema, path, root)).length
+    if (matches !== 1) {
+      errors.push(`${path} must match exactly one of the allowed schemas, matched ${matches}`)
+    }
+  }
+}
+
+function matchesSubschema(
+  value: unknown,
+  schema: JSONSchema7Definition,
+  path: string,
+  root: JSONSchema7,
+) {
+  const errors: string[] = []
+  validate(value, schema, path, root, errors)
+  return errors.length === 0
+}
+
+/**
+ * Patterns that are not valid JavaScript regular expressions are not checked.
+ */
+function matchesPattern(value: string, pattern: string) {
+  let regExp: RegExp
+  try {
+    regExp = new RegExp(pattern, "u")
+  }
+  catch {
+    return true
+  }
+  return regExp.test(value)
+}
+
+function resolveRef(ref: string, root: JSONSchema7): JSONSchema7Definition | undefined {
+  if (ref === "#") {
+    return root
+  }
+  if (!ref.startsWith("#/")) {
+    return undefined
+  }
+  let current: unknown = root
+  for (const segment of ref.slice(2).split("/")) {
+    if (typeof current !== "object" || current === null) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[decodeURIComponent(segment.replace(/~1/g, "/").replace(/~0/g, "~"))]
+  }
+  return typeof current === "boolean" || isPlainObject(current)
+    ? current as JSONSchema7Definition
+    : undefined
+}
+
+function matchesType(value: unknown, type: string) {
+  switch (type) {
+    case "null":
+      return value === null
+    case "boolean":
+      return typeof value === "boolean"
+    case "number":
+      return typeof value === "number"
+    case "integer":
+      return Number.isInteger(value)
+    case "string":
+      return typeof value === "string"
+    case "array":
+      return Array.isArray(value)
+    case "object":
+      return isPlainObject(value)
+    default:
+      return true
+  }
+}
+
+function describeType(value: unknown) {
+  return value === null ? "null" : Array.isArray(value) ? "array" : typeof value
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isDeepEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Reports the outcome of the emulation as warnings.
+ */
+export function getSparkStructuredOutputWarnings(report: SparkStructuredOutputReport): LanguageModelV1CallWarning[] {
+  const warnings: LanguageModelV1CallWarning[] = []
+  if (report.stripped) {
+    warnings.push({ type: "other", message: "Removed markdown fences or prose around the JSON reply." })
+  }
+  if (report.repairAttempts > 0) {
+    warnings.push({
+      type: "other",
+      message: report.valid
+        ? `The JSON reply was repaired in ${report.repairAttempts} round trip(s).`
+        : `The JSON reply could not be repaired in ${report.repairAttempts} round trip(s).`,
+    })
+  }
+  if (!report.valid) {
+    warnings.push({
+      type: "other",
+      message: `The JSON reply does not match the schema: ${report.errors.join("; ")}`,
+    })
+  }
+  return warnings
+}
+
+/**
+ * Extracts the JSON value from streamed text deltas and validates it when the
+ * stream finishes. The result is added to the `spark` metadata of the finish part.
+ *
+ * @param schema - The JSON schema the reply must match.
+ * @returns The transform.
+ */
+export function createSparkStructuredOutputTransform(
+  schema: JSONSchema7,
+): TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart> {
+  const extractor = new SparkJsonExtractor()
+  let raw = ""
+  let json = ""
+
+  return new TransformStream({
+    transform(part, controller) {
+      if (part.type === "text-delta") {
+        raw += part.textDelta
+        const textDelta = extractor.process(part.textDelta)
+        json += textDelta
+        if (textDelta.length > 0) {
+          controller.enqueue({ ...part, textDelta })
+        }
+        return
+      }
+
+      if (part.type === "finish") {
+        const text = extractor.found ? json : raw
+        if (!extractor.found && raw.length > 0) {
+          // Nothing was extracted, so the raw text was held back.
+          controller.enqueue({ type: "text-delta", textDelta: raw })
+        }
+        const errors = validateSparkJsonReply(text, schema)
+        const report: SparkStructuredOutputReport = {
+          stripped: extractor.found && extractor.stripped,
+          valid: errors.length === 0,
+          errors,
+          repairAttempts: 0,
+        }
+        controller.enqueue({
+          ...part,
+          providerMetadata: {
+            ...part.providerMetadata,
+            spark: { ...part.providerMetadata?.spark, structuredOutput: { ...report } },
+          },
+        })
+        return
+      }
+
+      controller.enqueue(part)
+    },
+  })
+}
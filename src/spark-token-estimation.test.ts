@@ -0,0 +1,108 @@
+import type { LanguageModelV1FunctionTool, LanguageModelV1Prompt } from "@ai-sdk/provider"
+import type { SparkChatModelId } from "./spark-chat-settings"
+import { describe, expect, it } from "vitest"
+import { createSparkProvider } from "./spark-provider"
+import { countSparkTokens, estimateSparkToolTokens } from "./spark-token-estimation"
+import { injectSparkToolInstructions } from "./spark-tool-emulation"
+
+function userPrompt(text: string): LanguageModelV1Prompt {
+  return [{ role: "user", content: [{ type: "text", text }] }]
+}
+
+const weatherTool: LanguageModelV1FunctionTool = {
+  type: "function",
+  name: "getWeather",
+  description: "Gets the weather of a city.",
+  parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+}
+
+describe("countSparkTokens", () => {
+  it.each([
+    // 12 Chinese characters and punctuation at 1.5 per token, plus 4 for the message.
+    { language: "Chinese", text: "床前明月光，疑是地上霜。", tokens: 12 },
+    // 5 English words at 0.8 per token and 2 symbols, plus 4 for the message.
+    { language: "English", text: "Hello world, how are you?", tokens: 13 },
+    // 9 Chinese characters, 2 English words, 1 number and 1 symbol, plus 4 for the message.
+    { language: "mixed", text: "今天的天气 is sunny, 气温 25 度。", tokens: 15 },
+  ])("counts $language text", ({ text, tokens }) => {
+    expect(countSparkTokens(userPrompt(text), "4.0Ultra")).toBe(tokens)
+  })
+
+  it("counts function tool definitions but not provider-defined tools", () => {
+    const prompt = userPrompt("北京今天天气怎么样？")
+
+    expect(countSparkTokens(prompt, "4.0Ultra", {
+      tools: [weatherTool, { type: "provider-defined", id: "spark.web_search", name: "web_search", args: {} }],
+    })).toBe(countSparkTokens(prompt, "4.0Ultra") + estimateSparkToolTokens([weatherTool]))
+  })
+
+  it("counts emulated tools as part of the system prompt", () => {
+    const prompt = userPrompt("北京今天天气怎么样？")
+
+    expect(countSparkTokens(prompt, "lite", { tools: [weatherTool] }))
+      .toBe(countSparkTokens(injectSparkToolInstructions(prompt, { tools: [weatherTool] }), "lite"))
+  })
+
+  it("counts inlined files as their rendered text and skips documents", () => {
+    const prompt: LanguageModelV1Prompt = [{
+      role: "user",
+      content: [
+        { type: "text", text: "Summarize the notes." },
+        { type: "file", data: btoa("Meeting at 10."), mimeType: "text/plain", providerMetadata: { spark: { filename: "notes.txt" } } },
+        { type: "file", data: "JVBERi0xLjQ=", mimeType: "application/pdf" },
+      ],
+    }]
+
+    expect(countSparkTokens(prompt, "4.0Ultra")).toBe(countSparkTokens([{
+      role: "user",
+      content: [
+        { type: "text", text: "Summarize the notes." },
+        { type: "text", text: "<file name=\"notes.txt\">\nMeeting at 10.\n</file>\n" },
+      ],
+    }], "4.0Ultra"))
+  })
+
+  it.each(["4.0Ultra", "lite"] satisfies SparkChatModelId[])(
+    "agrees with the context window management of %s",
+    async (modelId) => {
+      const prompt: LanguageModelV1Prompt = [
+        { role: "system", content: "你是一个天气助手。" },
+        { role: "user", content: [{ type: "text", text: "What was the weather yesterday?" }] },
+        { role: "assistant", content: [{ type: "text", text: "昨天是晴天。" }] },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "今天呢？" },
+            { type: "file", data: btoa("Forecast: rain"), mimeType: "text/plain" },
+          ],
+        },
+      ]
+      const tokens = countSparkTokens(prompt, modelId, { tools: [weatherTool] })
+
+      const requests: Array<{ messages: unknown[] }> = []
+      const fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+        requests.push(JSON.parse(init!.body as string))
+        return new Response(JSON.stringify({
+          code: 0,
+          message: "Success",
+          sid: "sid-1",
+          choices: [{ message: { role: "assistant", content: "下雨。" }, finish_reason: "stop" }],
+        }), { headers: { "content-type": "application/json" } })
+      }
+      const generate = (contextWindow: number) => createSparkProvider({ apiKey: "key", fetch })(modelId, {
+        contextManagement: { contextWindow, reservedOutputTokens: 100 },
+      }).doGenerate({ inputFormat: "messages", mode: { type: "regular", tools: [weatherTool] }, prompt })
+
+      const contextWarnings = ({ warnings }: { warnings?: Array<{ type: string, message?: string }> }) =>
+        warnings?.filter(warning => warning.message?.includes("context window"))
+
+      const fitting = await generate(tokens + 100)
+      expect(contextWarnings(fitting)).toStrictEqual([])
+      expect(requests[0].messages).toHaveLength(4)
+
+      const truncated = await generate(tokens + 99)
+      expect(contextWarnings(truncated)).toHaveLength(1)
+      expect(requests[1].messages).toHaveLength(2)
+    },
+  )
+})
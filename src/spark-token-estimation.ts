@@ -0,0 +1,173 @@
+import type {
+  LanguageModelV1FunctionTool,
+  LanguageModelV1Prompt,
+  LanguageModelV1ProviderDefinedTool,
+} from "@ai-sdk/provider"
+import type { SparkMessage } from "./spark-api-types"
+import type { SparkChatModelId } from "./spark-chat-settings"
+import type { SparkFileSettings } from "./spark-files"
+import { convertToSparkChatMessages } from "./convert-to-spark-message"
+import { inlineSparkFilePrompt } from "./spark-files"
+import { getSparkModelInfo } from "./spark-model-catalog"
+import {
+  injectSparkToolInstructions,
+  renderSparkToolHistory,
+} from "./spark-tool-emulation"
+
+// Spark counts about 1.5 Chinese characters or 0.8 English words per token.
+// https://www.xfyun.cn/doc/spark/HTTP%E8%B0%83%E7%94%A8%E6%96%87%E6%A1%A3.html
+const CHINESE_CHARACTERS_PER_TOKEN = 1.5
+const ENGLISH_WORDS_PER_TOKEN = 0.8
+const DIGITS_PER_TOKEN = 3
+
+// Role and separator tokens added to every message.
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+// Type and separator tokens added to every tool definition.
+const TOOL_OVERHEAD_TOKENS = 8
+
+// Spark does not document how images are counted; a flat estimate is used.
+const IMAGE_TOKENS = 512
+
+const textPattern = /(\p{Script=Han}|[\u3000-\u303F\uFF00-\uFFEF])|([A-Z]+)|(\d+)|(\S)/giu
+
+/**
+ * Estimates the number of tokens of a text with a heuristic for mixed
+ * Chinese and English text.
+ *
+ * @param text - The text.
+ * @returns The estimated number of tokens.
+ */
+export function estimateSparkTextTokens(text: string): number {
+  let chineseCharacters = 0
+  let englishWords = 0
+  let digitTokens = 0
+  let symbols = 0
+
+  textPattern.lastIndex = 0
+  for (let match = textPattern.exec(text); match != null; match = textPattern.exec(text)) {
+    if (match[1] != null) {
+      chineseCharacters++
+    }
+    else if (match[2] != null) {
+      englishWords++
+    }
+    else if (match[3] != null) {
+      digitTokens += Math.ceil(match[3].length / DIGITS_PER_TOKEN)
+    }
+    else {
+      symbols++
+    }
+  }
+
+  return Math.ceil(
+    chineseCharacters / CHINESE_CHARACTERS_PER_TOKEN
+    + englishWords / ENGLISH_WORDS_PER_TOKEN
+    + digitTokens
+    + symbols,
+  )
+}
+
+/**
+ * Estimates the number of tokens of a Spark chat message, including its tool
+ * calls, images and the role overhead.
+ *
+ * @param message - The Spark chat message.
+ * @returns The estimated number of tokens.
+ */
+export function estimateSparkMessageTokens(message: SparkMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS
+
+  switch (message.role) {
+    case "user": {
+      const parts = typeof message.content === "string"
+        ? [{ type: "text" as const, text: message.content }]
+        : message.content
+      for (const part of parts) {
+        tokens += part.type === "text" ? estimateSparkTextTokens(part.text) : IMAGE_TOKENS
+      }
+      break
+    }
+    case "assistant": {
+      tokens += estimateSparkTextTokens(message.content ?? "")
+      for (const toolCall of message.tool_calls ?? []) {
+        tokens += estimateSparkTextTokens(toolCall.function.name)
+          + estimateSparkTextTokens(toolCall.function.arguments)
+      }
+      break
+    }
+    case "system":
+    case "tool": {
+      tokens += estimateSparkTextTokens(message.content)
+      break
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Estimates the number of tokens of function tool definitions sent to Spark.
+ * Provider-defined tools are not counted.
+ *
+ * @param tools - The tools of the call.
+ * @returns The estimated number of tokens.
+ */
+export function estimateSparkToolTokens(
+  tools: Array<LanguageModelV1FunctionTool | LanguageModelV1ProviderDefinedTool> = [],
+): number {
+  return tools.reduce((sum, tool) => tool.type === "function"
+    ? sum + TOOL_OVERHEAD_TOKENS + estimateSparkTextTokens(JSON.stringify({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }))
+    : sum, 0)
+}
+
+/**
+ * Estimates how many prompt tokens a prompt costs on Spark. The prompt is
+ * converted like a chat request: text, images, tool calls and tool results
+ * are counted, and tool calling is rendered into the prompt for models that
+ * emulate it.
+ *
+ * Files that are inlined are counted as inlined text, using the file settings
+ * of the model. Files answered by Spark document Q&A and URL files, which are
+ * downloaded at request time, are not counted.
+ *
+ * @param prompt - The prompt.
+ * @param modelId - The chat model ID.
+ * @param options.tools - Tool definitions sent with the prompt.
+ * @param options.files - The file settings of the model. Defaults to the model defaults.
+ * @returns The estimated number of prompt tokens.
+ */
+export function countSparkTokens(
+  prompt: LanguageModelV1Prompt,
+  modelId: SparkChatModelId,
+  {
+    tools,
+    files,
+  }: {
+    tools?: Array<LanguageModelV1FunctionTool | LanguageModelV1ProviderDefinedTool>
+    files?: SparkFileSettings
+  } = {},
+): number {
+  const modelInfo = getSparkModelInfo(modelId)
+  let toolTokens = estimateSparkToolTokens(tools)
+
+  prompt = inlineSparkFilePrompt(prompt, files)
+  if (modelInfo != null && !modelInfo.supportsTools) {
+    // Tool calling is emulated through the prompt for these models.
+    prompt = renderSparkToolHistory(prompt)
+    const functionTools = (tools ?? []).filter(
+      (tool): tool is LanguageModelV1FunctionTool => tool.type === "function",
+    )
+    if (functionTools.length > 0) {
+      prompt = injectSparkToolInstructions(prompt, { tools: functionTools })
+      toolTokens = 0
+    }
+  }
+
+  return convertToSparkChatMessages(prompt)
+    .reduce((sum, message) => sum + estimateSparkMessageTokens(message), toolTokens)
+}
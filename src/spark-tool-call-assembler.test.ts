@@ -0,0 +1,76 @@
+import { InvalidResponseDataError } from "@ai-sdk/provider"
+import { describe, expect, it } from "vitest"
+import { SparkToolCallAssembler } from "./spark-tool-call-assembler"
+
+describe("SparkToolCallAssembler", () => {
+  it("emits deltas per fragment and one tool call on finish", () => {
+    const assembler = new SparkToolCallAssembler()
+
+    expect(assembler.processDeltas([
+      { index: 0, id: "call-1", type: "function", function: { name: "weather", arguments: "{\"city\":" } },
+    ])).toStrictEqual([
+      { type: "tool-call-delta", toolCallType: "function", toolCallId: "call-1", toolName: "weather", argsTextDelta: "{\"city\":" },
+    ])
+    expect(assembler.processDeltas([{ index: 0, function: { arguments: "\"Hefei\"}" } }])).toStrictEqual([
+      { type: "tool-call-delta", toolCallType: "function", toolCallId: "call-1", toolName: "weather", argsTextDelta: "\"Hefei\"}" },
+    ])
+    expect(assembler.hasToolCalls).toBe(true)
+    expect(assembler.finish()).toStrictEqual([
+      { type: "tool-call", toolCallType: "function", toolCallId: "call-1", toolName: "weather", args: "{\"city\":\"Hefei\"}" },
+    ])
+    expect(assembler.finish()).toStrictEqual([])
+  })
+
+  it("completes a call when the next one starts", () => {
+    const assembler = new SparkToolCallAssembler()
+    assembler.processDeltas([{ index: 0, id: "call-1", function: { name: "a", arguments: "{}" } }])
+
+    const parts = assembler.processDeltas([{ index: 1, id: "call-2", function: { name: "b", arguments: "{\"x\":1}" } }])
+
+    expect(parts.map(part => part.type)).toStrictEqual(["tool-call", "tool-call-delta"])
+    expect(parts[0]).toMatchObject({ toolCallId: "call-1", args: "{}" })
+    expect(assembler.finish()).toMatchObject([{ type: "tool-call", toolCallId: "call-2", args: "{\"x\":1}" }])
+  })
+
+  it("matches fragments by id and continues the latest call without index or id", () => {
+    const assembler = new SparkToolCallAssembler()
+    assembler.processDeltas([{ id: "call-1", function: { name: "a", arguments: "{\"x\"" } }])
+    assembler.processDeltas([{ id: "call-1", function: { arguments: ":1" } }])
+    assembler.processDeltas([{ function: { arguments: "}" } }])
+
+    expect(assembler.finish()).toMatchObject([{ type: "tool-call", toolCallId: "call-1", args: "{\"x\":1}" }])
+  })
+
+  it("sends calls without arguments as an empty object", () => {
+    const assembler = new SparkToolCallAssembler()
+    expect(assembler.processDeltas([{ index: 0, id: "call-1", function: { name: "now" } }])).toStrictEqual([])
+
+    expect(assembler.finish()).toMatchObject([{ type: "tool-call", toolCallId: "call-1", args: "{}" }])
+  })
+
+  it("emits an error part for invalid JSON arguments", () => {
+    const assembler = new SparkToolCallAssembler()
+    assembler.processDeltas([{ index: 0, id: "call-1", function: { name: "a", arguments: "{\"x\":" } }])
+
+    const [part] = assembler.finish()
+
+    expect(part.type).toBe("error")
+    expect(part.type === "error" && part.error).toBeInstanceOf(InvalidResponseDataError)
+  })
+
+  it("ignores fragments of finished calls", () => {
+    const assembler = new SparkToolCallAssembler()
+    assembler.processDeltas([{ index: 0, id: "call-1", function: { name: "a", arguments: "{}" } }])
+    assembler.finish()
+
+    expect(assembler.processDeltas([{ index: 0, function: { arguments: "x" } }])).toStrictEqual([])
+  })
+
+  it("rejects new calls without a function name or with another type", () => {
+    expect(() => new SparkToolCallAssembler().processDeltas([{ index: 0, function: { arguments: "{}" } }]))
+      .toThrow(InvalidResponseDataError)
+    expect(() => new SparkToolCallAssembler().processDeltas([
+      { index: 0, type: "retrieval" as "function", function: { name: "a" } },
+    ])).toThrow("Expected 'function' type.")
+  })
+})
@@ -0,0 +1,152 @@
+import type { LanguageModelV1StreamPart } from "@ai-sdk/provider"
+import { InvalidResponseDataError } from "@ai-sdk/provider"
+import { generateId, isParsableJson } from "@ai-sdk/provider-utils"
+
+/**
+ * A tool call fragment as sent in a streaming delta.
+ */
+export interface SparkToolCallDelta {
+  index?: number | null
+  id?: string | null
+  type?: "function"
+  function?: {
+    name?: string | null
+    arguments?: string | null
+  }
+}
+
+interface PendingToolCall {
+  id: string
+  name: string
+  arguments: string
+  hasFinished: boolean
+}
+
+/**
+ * Incrementally assembles streamed tool calls.
+ *
+ * Argument fragments are appended per call (keyed by index, then id).
+ * Each call produces `tool-call-delta` parts as fragments arrive and exactly one
+ * `tool-call` part once it is complete: when a later call starts, when the
+ * choice reports a finish reason, or when the stream ends.
+ */
+export class SparkToolCallAssembler {
+  private readonly toolCalls: PendingToolCall[] = []
+
+  /**
+   * Whether any tool call has been started.
+   */
+  get hasToolCalls(): boolean {
+    return this.toolCalls.length > 0
+  }
+
+  /**
+   * Processes the tool call fragments of one delta.
+   *
+   * @param deltas - The tool call fragments.
+   * @returns The stream parts to emit.
+   */
+  processDeltas(deltas: SparkToolCallDelta[]): LanguageModelV1StreamPart[] {
+    const parts: LanguageModelV1StreamPart[] = []
+
+    for (const delta of deltas) {
+      let index = this.findIndex(delta)
+
+      if (index < 0 || this.toolCalls[index] == null) {
+        // A new tool call starts, which completes the ones before it.
+        if (delta.type != null && delta.type !== "function") {
+          throw new InvalidResponseDataError({
+            data: delta,
+            message: `Expected 'function' type.`,
+          })
+        }
+        if (delta.function?.name == null) {
+          throw new InvalidResponseDataError({
+            data: delta,
+            message: `Expected 'function.name' to be a string.`,
+          })
+        }
+
+        parts.push(...this.finish())
+
+        index = index < 0 ? this.toolCalls.length : index
+        this.toolCalls[index] = {
+          id: delta.id ?? generateId(),
+          name: delta.function.name,
+          arguments: "",
+          hasFinished: false,
+        }
+      }
+
+      const toolCall = this.toolCalls[index]
+      const argsTextDelta = delta.function?.arguments ?? ""
+
+      if (toolCall.hasFinished || argsTextDelta.length === 0) {
+        continue
+      }
+
+      toolCall.arguments += argsTextDelta
+      parts.push({
+        type: "tool-call-delta",
+        toolCallType: "function",
+        toolCallId: toolCall.id,
+        toolName: toolCall.name,
+        argsTextDelta,
+      })
+    }
+
+    return parts
+  }
+
+  /**
+   * Completes all pending tool calls.
+   *
+   * @returns A `tool-call` part per pending call, or an `error` part when its
+   *          arguments are not valid JSON.
+   */
+  finish(): LanguageModelV1StreamPart[] {
+    const parts: LanguageModelV1StreamPart[] = []
+
+    for (const toolCall of this.toolCalls) {
+      if (toolCall == null || toolCall.hasFinished) {
+        continue
+      }
+      toolCall.hasFinished = true
+
+      // Calls without arguments are sent as an empty object.
+      const args = toolCall.arguments.trim() === "" ? "{}" : toolCall.arguments
+
+      if (!isParsableJson(args)) {
+        parts.push({
+          type: "error",
+          error: new InvalidResponseDataError({
+            data: { toolCallId: toolCall.id, toolName: toolCall.name, arguments: args },
+            message: `Invalid JSON arguments for tool call '${toolCall.name}' (${toolCall.id}).`,
+          }),
+        })
+        continue
+      }
+
+      parts.push({
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: toolCall.id,
+        toolName: toolCall.name,
+        args,
+      })
+    }
+
+    return parts
+  }
+
+  private findIndex(delta: SparkToolCallDelta): number {
+    if (delta.index != null) {
+      return delta.index
+    }
+    if (delta.id != null) {
+      return this.toolCalls.findIndex(toolCall => toolCall?.id === delta.id)
+    }
+    // Fragments without index or id continue the latest call.
+    return this.toolCalls.length - 1
+  }
+}
@@ -0,0 +1,127 @@
+import type { LanguageModelV1StreamPart } from "@ai-sdk/provider"
+import { convertArrayToReadableStream, convertReadableStreamToArray } from "@ai-sdk/provider-utils/test"
+import { describe, expect, it } from "vitest"
+import {
+  createSparkToolEmulationTransform,
+  extractSparkToolCalls,
+  injectSparkToolInstructions,
+  renderSparkToolHistory,
+  SparkToolCallParser,
+} from "./spark-tool-emulation"
+
+const toolNames = new Set(["weather"])
+
+describe("injectSparkToolInstructions", () => {
+  it("describes the tools and the tool choice in the system message", () => {
+    const [system] = injectSparkToolInstructions([{ role: "system", content: "Be brief." }], {
+      tools: [{ type: "function", name: "weather", description: "Gets the weather.", parameters: { type: "object" } }],
+      toolChoice: { type: "tool", toolName: "weather" },
+    })
+
+    expect(system.content).toMatch(/^Be brief\.\n\nYou can call the following tools\./)
+    expect(system.content).toContain("- weather: Gets the weather.\n  Parameters (JSON schema): {\"type\":\"object\"}")
+    expect(system.content).toMatch(/You must call the tool weather\.$/)
+  })
+})
+
+describe("renderSparkToolHistory", () => {
+  it("renders tool calls and tool results as text", () => {
+    expect(renderSparkToolHistory([
+      { role: "user", content: [{ type: "text", text: "Weather in Hefei?" }] },
+      {
+        role: "assistant",
+        content: [{ type: "tool-call", toolCallId: "call-1", toolName: "weather", args: { city: "Hefei" } }],
+      },
+      {
+        role: "tool",
+        content: [{ type: "tool-result", toolCallId: "call-1", toolName: "weather", result: { temperature: 20 }, isError: true }],
+      },
+    ])).toStrictEqual([
+      { role: "user", content: [{ type: "text", text: "Weather in Hefei?" }] },
+      {
+        role: "assistant",
+        content: [{ type: "text", text: "<tool_call>{\"name\":\"weather\",\"arguments\":{\"city\":\"Hefei\"}}</tool_call>" }],
+      },
+      {
+        role: "user",
+        content: [{ type: "text", text: "<tool_result name=\"weather\" id=\"call-1\" error=\"true\">{\"temperature\":20}</tool_result>" }],
+      },
+    ])
+  })
+})
+
+describe("SparkToolCallParser", () => {
+  it("holds back a partial opening tag across deltas", () => {
+    const parser = new SparkToolCallParser(toolNames)
+
+    expect(parser.process("Let me check <tool")).toStrictEqual([{ type: "text", text: "Let me check " }])
+    expect(parser.process("_call>{\"name\":\"weather\",")).toStrictEqual([])
+    expect(parser.process("\"arguments\":{\"city\":\"Hefei\"}}</tool_call>")).toMatchObject([
+      { type: "tool-call", toolCall: { toolCallType: "function", toolName: "weather", args: "{\"city\":\"Hefei\"}" } },
+    ])
+    expect(parser.flush()).toStrictEqual([])
+  })
+
+  it("releases held back text that is not a tag", () => {
+    const parser = new SparkToolCallParser(toolNames)
+
+    expect(parser.process("a <to")).toStrictEqual([{ type: "text", text: "a " }])
+    expect(parser.process("p>")).toStrictEqual([{ type: "text", text: "<top>" }])
+    expect(parser.process("<tool_call>{")).toStrictEqual([])
+    expect(parser.flush()).toStrictEqual([{ type: "text", text: "<tool_call>{" }])
+  })
+
+  it("passes blocks with unknown tools or invalid arguments through as text", () => {
+    const parser = new SparkToolCallParser(toolNames)
+    const blocks = [
+      "<tool_call>{\"name\":\"search\",\"arguments\":{}}</tool_call>",
+      "<tool_call>{\"name\":\"weather\",\"arguments\":[1]}</tool_call>",
+      "<tool_call>not json</tool_call>",
+    ]
+
+    expect(parser.process(blocks.join(""))).toStrictEqual(blocks.map(text => ({ type: "text", text })))
+  })
+})
+
+describe("extractSparkToolCalls", () => {
+  it("separates the text from the tool calls", () => {
+    const { text, toolCalls } = extractSparkToolCalls(
+      "Checking. <tool_call>{\"name\":\"weather\"}</tool_call>",
+      toolNames,
+    )
+
+    expect(text).toBe("Checking.")
+    expect(toolCalls).toMatchObject([{ toolName: "weather", args: "{}" }])
+  })
+
+  it("returns no text when the reply only holds tool calls", () => {
+    expect(extractSparkToolCalls(" <tool_call>{\"name\":\"weather\"}</tool_call>\n", toolNames).text).toBeUndefined()
+  })
+})
+
+describe("createSparkToolEmulationTransform", () => {
+  it("emits tool calls and reports the tool-calls finish reason", async () => {
+    const parts = await convertReadableStreamToArray(convertArrayToReadableStream<LanguageModelV1StreamPart>([
+      { type: "text-delta", textDelta: "Checking. <tool_call>{\"name\":\"weather\"," },
+      { type: "text-delta", textDelta: "\"arguments\":{\"city\":\"Hefei\"}}</tool_call>" },
+      { type: "finish", finishReason: "stop", usage: { promptTokens: 1, completionTokens: 1 } },
+    ]).pipeThrough(createSparkToolEmulationTransform(toolNames)))
+
+    const toolCallId = parts.find(part => part.type === "tool-call")?.toolCallId
+    expect(parts).toStrictEqual([
+      { type: "text-delta", textDelta: "Checking. " },
+      { type: "tool-call-delta", toolCallType: "function", toolCallId, toolName: "weather", argsTextDelta: "{\"city\":\"Hefei\"}" },
+      { type: "tool-call", toolCallType: "function", toolCallId, toolName: "weather", args: "{\"city\":\"Hefei\"}" },
+      { type: "finish", finishReason: "tool-calls", usage: { promptTokens: 1, completionTokens: 1 } },
+    ])
+  })
+
+  it("keeps other finish reasons", async () => {
+    const parts = await convertReadableStreamToArray(convertArrayToReadableStream<LanguageModelV1StreamPart>([
+      { type: "text-delta", textDelta: "<tool_call>{\"name\":\"weather\"}</tool_call>" },
+      { type: "finish", finishReason: "length", usage: { promptTokens: 1, completionTokens: 1 } },
+    ]).pipeThrough(createSparkToolEmulationTransform(toolNames)))
+
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "length" })
+  })
+})
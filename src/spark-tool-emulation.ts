@@ -0,0 +1,314 @@
+import type {
+  LanguageModelV1FunctionTool,
+  LanguageModelV1FunctionToolCall,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+  LanguageModelV1ToolChoice,
+} from "@ai-sdk/provider"
+import { generateId } from "@ai-sdk/provider-utils"
+
+const TOOL_CALL_OPEN = "<tool_call>"
+const TOOL_CALL_CLOSE = "</tool_call>"
+
+/**
+ * Tools of a call whose tool calling is emulated through the prompt.
+ */
+export interface SparkEmulatedTools {
+  tools: LanguageModelV1FunctionTool[]
+  toolChoice?: LanguageModelV1ToolChoice
+}
+
+/**
+ * Describes the tools and the tool call format in the system prompt.
+ *
+ * @param prompt - The prompt, with the tool history already rendered as text.
+ * @param options.tools - The function tools.
+ * @param options.toolChoice - The tool choice.
+ * @returns The prompt with the instructions appended to its system message.
+ */
+export function injectSparkToolInstructions(
+  prompt: LanguageModelV1Prompt,
+  { tools, toolChoice }: SparkEmulatedTools,
+): LanguageModelV1Prompt {
+  const instruction = [
+    "You can call the following tools. To call a tool, reply with one block per call in exactly this format, with the arguments as a JSON object:",
+    `${TOOL_CALL_OPEN}{"name": "<tool name>", "arguments": {}}${TOOL_CALL_CLOSE}`,
+    "Do not write anything after the last block. Tool results are sent back in <tool_result> blocks.",
+    "",
+    "Tools:",
+    ...tools.map(tool => [
+      `- ${tool.name}${tool.description ? `: ${tool.description}` : ""}`,
+      `  Parameters (JSON schema): ${JSON.stringify(tool.parameters)}`,
+    ].join("\n")),
+    ...(toolChoice?.type === "required" ? ["", "You must call at least one tool."] : []),
+    ...(toolChoice?.type === "tool" ? ["", `You must call the tool ${toolChoice.toolName}.`] : []),
+  ].join("\n")
+
+  const [first, ...rest] = prompt
+  if (first?.role === "system") {
+    return [{ ...first, content: `${first.content}\n\n${instruction}` }, ...rest]
+  }
+  return [{ role: "system", content: instruction }, ...prompt]
+}
+
+/**
+ * Renders earlier tool calls and tool results as text, for models that do not
+ * understand tool messages. Tool calls become `<tool_call>` blocks of the
+ * assistant message; tool results become user messages with `<tool_result>` blocks.
+ *
+ * @param prompt - The prompt.
+ * @returns The prompt without tool call parts and tool messages.
+ */
+export function renderSparkToolHistory(prompt: LanguageModelV1Prompt): LanguageModelV1Prompt {
+  return prompt.map((message) => {
+    switch (message.role) {
+      case "assistant": {
+        if (!message.content.some(part => part.type === "tool-call")) {
+          return message
+        }
+        return {
+          ...message,
+          content: message.content.map(part => part.type === "tool-call"
+            ? {
+                type: "text" as const,
+                text: formatSparkToolCall(part.toolName, part.args),
+              }
+            : part,
+          ),
+        }
+      }
+
+      case "tool": {
+        return {
+          role: "user" as const,
+          content: [
+            {
+              type: "text" as const,
+              text: message.content
+                .map(part =>
+                  `<tool_result name="${part.toolName}" id="${part.toolCallId}"${part.isError ? " error=\"true\"" : ""}>${JSON.stringify(part.result)}</tool_result>`,
+                )
+                .join("\n"),
+            },
+          ],
+          ...(message.providerMetadata && { providerMetadata: message.providerMetadata }),
+        }
+      }
+
+      default:
+        return message
+    }
+  })
+}
+
+function formatSparkToolCall(name: string, args: unknown) {
+  return `${TOOL_CALL_OPEN}${JSON.stringify({ name, arguments: args })}${TOOL_CALL_CLOSE}`
+}
+
+/**
+ * A piece of parsed reply: text, or a tool call.
+ */
+export type SparkToolCallParserOutput =
+  | { type: "text", text: string }
+  | { type: "tool-call", toolCall: LanguageModelV1FunctionToolCall }
+
+/**
+ * Parses `<tool_call>` blocks out of a reply. Works incrementally on streamed
+ * text: text that may be the start of a block is held back until it is complete.
+ *
+ * Blocks are only accepted in the strict format, with a known tool name and
+ * object arguments; anything else is passed through as text.
+ */
+export class SparkToolCallParser {
+  private buffer = ""
+  private inToolCall = false
+
+  constructor(private readonly toolNames: ReadonlySet<string>) {}
+
+  /**
+   * Processes the next piece of text.
+   *
+   * @returns The text and the tool calls that are complete.
+   */
+  process(text: string): SparkToolCallParserOutput[] {
+    const output: SparkToolCallParserOutput[] = []
+    this.buffer += text
+
+    for (;;) {
+      if (!this.inToolCall) {
+        const start = this.buffer.indexOf(TOOL_CALL_OPEN)
+        if (start < 0) {
+          // Hold back a possible partial opening tag.
+          const keep = getPartialTagLength(this.buffer, TOOL_CALL_OPEN)
+          pushText(output, this.buffer.slice(0, this.buffer.length - keep))
+          this.buffer = this.buffer.slice(this.buffer.length - keep)
+          return output
+        }
+        pushText(output, this.buffer.slice(0, start))
+        this.buffer = this.buffer.slice(start + TOOL_CALL_OPEN.length)
+        this.inToolCall = true
+      }
+
+      const end = this.buffer.indexOf(TOOL_CALL_CLOSE)
+      if (end < 0) {
+        return output
+      }
+      const body = this.buffer.slice(0, end)
+      this.buffer = this.buffer.slice(end + TOOL_CALL_CLOSE.length)
+      this.inToolCall = false
+
+      const toolCall = this.parseToolCall(body)
+      if (toolCall != null) {
+        output.push({ type: "tool-call", toolCall })
+      }
+      else {
+        pushText(output, `${TOOL_CALL_OPEN}${body}${TOOL_CALL_CLOSE}`)
+      }
+    }
+  }
+
+  /**
+   * Returns the held back text at the end of the reply.
+   */
+  flush(): SparkToolCallParserOutput[] {
+    const output: SparkToolCallParserOutput[] = []
+    pushText(output, this.inToolCall ? `${TOOL_CALL_OPEN}${this.buffer}` : this.buffer)
+    this.buffer = ""
+    this.inToolCall = false
+    return output
+  }
+
+  private parseToolCall(body: string): LanguageModelV1FunctionToolCall | undefined {
+    let value: unknown
+    try {
+      value = JSON.parse(body)
+    }
+    catch {
+      return undefined
+    }
+    if (typeof value !== "object" || value == null) {
+      return undefined
+    }
+
+    const { name, arguments: args = {} } = value as { name?: unknown, arguments?: unknown }
+    if (
+      typeof name !== "string"
+      || !this.toolNames.has(name)
+      || typeof args !== "object"
+      || args == null
+      || Array.isArray(args)
+    ) {
+      return undefined
+    }
+
+    return {
+      toolCallType: "function",
+      toolCallId: generateId(),
+      toolName: name,
+      args: JSON.stringify(args),
+    }
+  }
+}
+
+function pushText(output: SparkToolCallParserOutput[], text: string) {
+  if (text.length > 0) {
+    output.push({ type: "text", text })
+  }
+}
+
+/**
+ * Length of the longest suffix of `text` that is a prefix of `tag`.
+ */
+function getPartialTagLength(text: string, tag: string) {
+  for (let length = Math.min(text.length, tag.length - 1); length > 0; length--) {
+    if (tag.startsWith(text.slice(text.length - length))) {
+      return length
+    }
+  }
+  return 0
+}
+
+/**
+ * Parses the tool calls out of a complete reply.
+ *
+ * @param text - The reply.
+ * @param toolNames - Names of the tools of the call.
+ * @returns The remaining text (undefined when empty) and the tool calls.
+ */
+export function extractSparkToolCalls(
+  text: string,
+  toolNames: ReadonlySet<string>,
+): { text: string | undefined, toolCalls: LanguageModelV1FunctionToolCall[] } {
+  const parser = new SparkToolCallParser(toolNames)
+  const output = [...parser.process(text), ...parser.flush()]
+
+  const remainingText = output
+    .map(part => (part.type === "text" ? part.text : ""))
+    .join("")
+    .trim()
+  return {
+    text: remainingText.length > 0 ? remainingText : undefined,
+    toolCalls: output.flatMap(part => (part.type === "tool-call" ? [part.toolCall] : [])),
+  }
+}
+
+/**
+ * Parses tool calls out of streamed text deltas. Tool calls are emitted as a
+ * `tool-call-delta` with the complete arguments followed by the `tool-call`;
+ * the finish reason becomes `tool-calls` when the reply contains tool calls.
+ *
+ * @param toolNames - Names of the tools of the call.
+ * @returns The transform.
+ */
+export function createSparkToolEmulationTransform(
+  toolNames: ReadonlySet<string>,
+): TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart> {
+  const parser = new SparkToolCallParser(toolNames)
+  let hasToolCalls = false
+
+  const enqueueOutput = (
+    output: SparkToolCallParserOutput[],
+    controller: TransformStreamDefaultController<LanguageModelV1StreamPart>,
+  ) => {
+    for (const part of output) {
+      if (part.type === "text") {
+        controller.enqueue({ type: "text-delta", textDelta: part.text })
+        continue
+      }
+      hasToolCalls = true
+      const { toolCall } = part
+      controller.enqueue({
+        type: "tool-call-delta",
+        toolCallType: "function",
+        toolCallId: toolCall.toolCallId,
+        toolName: toolCall.toolName,
+        argsTextDelta: toolCall.args,
+      })
+      controller.enqueue({ type: "tool-call", ...toolCall })
+    }
+  }
+
+  return new TransformStream({
+    transform(part, controller) {
+      switch (part.type) {
+        case "text-delta": {
+          enqueueOutput(parser.process(part.textDelta), controller)
+          break
+        }
+        case "finish": {
+          enqueueOutput(parser.flush(), controller)
+          controller.enqueue({
+            ...part,
+            finishReason: hasToolCalls && (part.finishReason === "stop" || part.finishReason === "unknown")
+              ? "tool-calls"
+              : part.finishReason,
+          })
+          break
+        }
+        default: {
+          controller.enqueue(part)
+        }
+      }
+    },
+  })
+}
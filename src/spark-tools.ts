@@ -0,0 +1,134 @@
+import type { JSONObject } from "@ai-sdk/provider"
+import { safeParseJSON, validateTypes } from "@ai-sdk/provider-utils"
+import { z } from "zod"
+
+/**
+ * Options for Spark's built-in `web_search` tool.
+ */
+export interface SparkWebSearchOptions {
+  /**
+   * Whether web search is enabled. Defaults to true.
+   */
+  enable?: boolean
+  /**
+   * Whether the answer should contain reference labels (e.g. `[1]`) pointing to the sources.
+   */
+  showRefLabel?: boolean
+  /**
+   * `normal` for a quick search, `deep` for a more thorough one.
+   */
+  searchMode?: "normal" | "deep"
+}
+
+const sparkWebSearchOptionsSchema: z.ZodType<SparkWebSearchOptions> = z.object({
+  enable: z.boolean().optional(),
+  showRefLabel: z.boolean().optional(),
+  searchMode: z.enum(["normal", "deep"]).optional(),
+})
+
+/**
+ * Identifier of the provider-defined web search tool.
+ */
+export const SPARK_WEB_SEARCH_TOOL_ID = "spark.web_search"
+
+/**
+ * Creates Spark's built-in web search tool.
+ *
+ * @param options - The web search options.
+ * @returns A provider-defined tool to pass in the `tools` of a call.
+ */
+function webSearch(options: SparkWebSearchOptions = {}) {
+  return {
+    type: "provider-defined" as const,
+    id: SPARK_WEB_SEARCH_TOOL_ID as "spark.web_search",
+    args: options,
+    parameters: z.object({}),
+  }
+}
+
+export const sparkTools = {
+  webSearch,
+}
+
+/**
+ * Validates the web search tool arguments and serializes them into Spark's `tools` entry.
+ *
+ * @param value - The provider-defined tool arguments.
+ * @returns The Spark `web_search` tool.
+ * @throws TypeValidationError when the arguments do not match the web search options.
+ */
+export function prepareSparkWebSearchTool(value: unknown) {
+  const args = validateTypes({ value, schema: sparkWebSearchOptionsSchema })
+  return {
+    type: "web_search" as const,
+    web_search: {
+      enable: args.enable ?? true,
+      show_ref_label: args.showRefLabel,
+      search_mode: args.searchMode,
+    },
+  }
+}
+
+/**
+ * Schema for the plugin output Spark attaches to messages and deltas.
+ */
+export const sparkPluginsContentSchema = z
+  .array(
+    z.object({
+      name: z.string().nullish(),
+      content: z.string().nullish(),
+    }),
+  )
+  .nullish()
+
+const sparkSearchResultsSchema = z.array(
+  z.object({
+    index: z.number().nullish(),
+    url: z.string().nullish(),
+    title: z.string().nullish(),
+  }),
+)
+
+/**
+ * A web search result cited by the model.
+ */
+export interface SparkSearchSource extends JSONObject {
+  index: number | null
+  url: string
+  title: string | null
+}
+
+/**
+ * Extracts web search sources from Spark's plugin output.
+ * Entries that cannot be parsed are skipped.
+ *
+ * @param pluginsContent - The `plugins_content` of a message or delta.
+ * @returns The parsed sources.
+ */
+export function extractSparkSearchSources(
+  pluginsContent: z.infer<typeof sparkPluginsContentSchema>,
+): SparkSearchSource[] {
+  const sources: SparkSearchSource[] = []
+  for (const plugin of pluginsContent ?? []) {
+    if (plugin.content == null) {
+      continue
+    }
+    const parsed = safeParseJSON({
+      text: plugin.content,
+      schema: sparkSearchResultsSchema,
+    })
+    if (!parsed.success) {
+      continue
+    }
+    for (const result of parsed.value) {
+      if (result.url != null) {
+        sources.push({
+          index: result.index ?? null,
+          url: result.url,
+          title: result.title ?? null,
+        })
+      }
+    }
+  }
+  return sources
+}
@@ -0,0 +1,120 @@
+import type { LanguageModelV1Prompt } from "@ai-sdk/provider"
+import { APICallError, InvalidPromptError } from "@ai-sdk/provider"
+import { describe, expect, it, vi } from "vitest"
+import { prepareSparkVisionPrompt } from "./spark-vision"
+
+const image = new Uint8Array([1, 2, 3])
+
+describe("prepareSparkVisionPrompt", () => {
+  it("moves the first image to the front and drops further images", async () => {
+    const { prompt, warnings } = await prepareSparkVisionPrompt({
+      prompt: [
+        { role: "user", content: [{ type: "text", text: "What is this?" }] },
+        { role: "assistant", content: [{ type: "text", text: "Send an image." }] },
+        {
+          role: "user",
+          content: [
+            { type: "image", image, mimeType: "image/png" },
+            { type: "image", image: new Uint8Array([4]) },
+            { type: "text", text: "Here." },
+          ],
+        },
+      ],
+      maxImageBytes: 10,
+    })
+
+    expect(prompt).toStrictEqual([
+      {
+        role: "user",
+        content: [
+          { type: "image", image, mimeType: "image/png" },
+          { type: "text", text: "What is this?" },
+        ],
+      },
+      { role: "assistant", content: [{ type: "text", text: "Send an image." }] },
+      { role: "user", content: [{ type: "text", text: "Here." }] },
+    ])
+    expect(warnings).toStrictEqual([{
+      type: "other",
+      message: "Spark vision models accept one image per conversation. 1 additional image(s) were dropped.",
+    }])
+  })
+
+  it("moves leading system messages behind the image", async () => {
+    const { prompt, warnings } = await prepareSparkVisionPrompt({
+      prompt: [
+        { role: "system", content: "Answer in Chinese." },
+        { role: "user", content: [{ type: "text", text: "What is this?" }, { type: "image", image }] },
+      ],
+      maxImageBytes: 10,
+    })
+
+    expect(prompt).toStrictEqual([{
+      role: "user",
+      content: [
+        { type: "image", image, mimeType: "image/jpeg" },
+        { type: "text", text: "Answer in Chinese.\n\n" },
+        { type: "text", text: "What is this?" },
+      ],
+    }])
+    expect(warnings).toMatchObject([{ type: "other", message: expect.stringMatching(/^Spark vision models expect the image first/) }])
+  })
+
+  it("keeps prompts without images", async () => {
+    const prompt: LanguageModelV1Prompt = [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: [{ type: "text", text: "Hi" }] },
+    ]
+
+    expect(await prepareSparkVisionPrompt({ prompt, maxImageBytes: 10 })).toStrictEqual({ prompt, warnings: [] })
+  })
+
+  it("downloads URL images", async () => {
+    const fetch = vi.fn(async () => new Response(image, { headers: { "content-type": "image/png" } }))
+
+    const { prompt } = await prepareSparkVisionPrompt({
+      prompt: [{ role: "user", content: [{ type: "image", image: new URL("https://example.com/cat.png") }] }],
+      maxImageBytes: 10,
+      fetch,
+    })
+
+    expect(fetch).toHaveBeenCalledWith("https://example.com/cat.png", { signal: undefined })
+    expect(prompt).toStrictEqual([{ role: "user", content: [{ type: "image", image, mimeType: "image/png" }] }])
+  })
+
+  it("rejects failed downloads", async () => {
+    await expect(prepareSparkVisionPrompt({
+      prompt: [{ role: "user", content: [{ type: "image", image: new URL("https://example.com/cat.png") }] }],
+      maxImageBytes: 10,
+      fetch: async () => new Response(null, { status: 404 }),
+    })).rejects.toThrow(APICallError)
+  })
+
+  it("rejects images above the size limit without a resizer", async () => {
+    await expect(prepareSparkVisionPrompt({
+      prompt: [{ role: "user", content: [{ type: "image", image: new Uint8Array(4 * 1024 * 1024 + 1) }] }],
+      maxImageBytes: 4 * 1024 * 1024,
+    })).rejects.toThrow(InvalidPromptError)
+  })
+
+  it("resizes images above the size limit", async () => {
+    const resizeImage = vi.fn(async () => ({ data: image, mimeType: "image/webp" }))
+
+    const { prompt } = await prepareSparkVisionPrompt({
+      prompt: [{ role: "user", content: [{ type: "image", image: new Uint8Array(20), mimeType: "image/png" }] }],
+      maxImageBytes: 10,
+      resizeImage,
+    })
+
+    expect(resizeImage).toHaveBeenCalledWith({ data: new Uint8Array(20), mimeType: "image/png" }, { maxBytes: 10 })
+    expect(prompt).toStrictEqual([{ role: "user", content: [{ type: "image", image, mimeType: "image/webp" }] }])
+  })
+
+  it("rejects resized images that are still too large", async () => {
+    await expect(prepareSparkVisionPrompt({
+      prompt: [{ role: "user", content: [{ type: "image", image: new Uint8Array(20) }] }],
+      maxImageBytes: 10,
+      resizeImage: async () => ({ data: new Uint8Array(11) }),
+    })).rejects.toThrow("The resized image is 11 bytes")
+  })
+})
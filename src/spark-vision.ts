@@ -0,0 +1,172 @@
+import type {
+  LanguageModelV1CallWarning,
+  LanguageModelV1ImagePart,
+  LanguageModelV1Prompt,
+} from "@ai-sdk/provider"
+import type { FetchFunction } from "@ai-sdk/provider-utils"
+import { APICallError, InvalidPromptError } from "@ai-sdk/provider"
+
+/**
+ * Downscales or re-encodes an image so that it fits into `maxBytes`.
+ */
+export type SparkImageResizer = (
+  image: { data: Uint8Array, mimeType: string },
+  options: { maxBytes: number },
+) => PromiseLike<{ data: Uint8Array, mimeType?: string }>
+
+/**
+ * Applies the input rules of Spark's image understanding models:
+ * one image per conversation, sent first and inlined as base64.
+ *
+ * The first image of the prompt is kept and moved to the start of the first user
+ * message; further images are dropped with a warning. System messages before that
+ * message are moved behind the image. URL images are downloaded.
+ * Images above `maxImageBytes` are passed to `resizeImage`, or rejected without it.
+ *
+ * @param options.prompt - The prompt.
+ * @param options.maxImageBytes - The size limit of the model.
+ * @param options.resizeImage - Downscales oversized images.
+ * @param options.fetch - Fetch implementation used to download URL images.
+ * @param options.abortSignal - Cancels downloads.
+ * @returns The rewritten prompt and warnings for dropped images.
+ */
+export async function prepareSparkVisionPrompt({
+  prompt,
+  maxImageBytes,
+  resizeImage,
+  fetch = globalThis.fetch,
+  abortSignal,
+}: {
+  prompt: LanguageModelV1Prompt
+  maxImageBytes: number
+  resizeImage?: SparkImageResizer
+  fetch?: FetchFunction
+  abortSignal?: AbortSignal
+}): Promise<{
+    prompt: LanguageModelV1Prompt
+    warnings: LanguageModelV1CallWarning[]
+  }> {
+  const warnings: LanguageModelV1CallWarning[] = []
+  let image: LanguageModelV1ImagePart | undefined
+  let droppedImages = 0
+
+  const messages = prompt.map((message) => {
+    if (message.role !== "user") {
+      return message
+    }
+    const content = message.content.filter((part) => {
+      if (part.type !== "image") {
+        return true
+      }
+      if (image == null) {
+        image = part
+      }
+      else {
+        droppedImages++
+      }
+      return false
+    })
+    return { ...message, content }
+  })
+
+  if (droppedImages > 0) {
+    warnings.push({
+      type: "other",
+      message: `Spark vision models accept one image per conversation. ${droppedImages} additional image(s) were dropped.`,
+    })
+  }
+
+  if (image == null) {
+    return { prompt, warnings }
+  }
+
+  const { data, mimeType } = await loadImage(image, { fetch, abortSignal })
+  const fitted = await fitImage({ data, mimeType }, { maxImageBytes, resizeImage, prompt })
+
+  // The image goes first, at the start of the first user message. System
+  // messages before it are moved behind the image into that message.
+  const firstUserIndex = messages.findIndex(message => message.role === "user")
+  const firstUser = messages[firstUserIndex] as Extract<LanguageModelV1Prompt[number], { role: "user" }>
+  const instructions = messages.slice(0, firstUserIndex).flatMap(message =>
+    message.role === "system" ? [{ type: "text" as const, text: `${message.content}\n\n` }] : [],
+  )
+  messages[firstUserIndex] = {
+    ...firstUser,
+    content: [
+      { type: "image", image: fitted.data, mimeType: fitted.mimeType },
+      ...instructions,
+      ...firstUser.content,
+    ],
+  }
+
+  if (instructions.length > 0) {
+    warnings.push({
+      type: "other",
+      message: "Spark vision models expect the image first. System messages were moved into the first user message, after the image.",
+    })
+  }
+
+  return {
+    prompt: messages.filter((message, index) => index >= firstUserIndex || message.role !== "system"),
+    warnings,
+  }
+}
+
+async function loadImage(
+  image: LanguageModelV1ImagePart,
+  { fetch, abortSignal }: { fetch: FetchFunction, abortSignal?: AbortSignal },
+): Promise<{ data: Uint8Array, mimeType: string }> {
+  if (!(image.image instanceof URL)) {
+    return { data: image.image, mimeType: image.mimeType ?? "image/jpeg" }
+  }
+
+  const url = image.image.toString()
+  const response = await fetch(url, { signal: abortSignal })
+  if (!response.ok) {
+    throw new APICallError({
+      message: `Failed to download image ${url}: ${response.status} ${response.statusText}`,
+      url,
+      requestBodyValues: {},
+      statusCode: response.status,
+      isRetryable: false,
+    })
+  }
+
+  return {
+    data: new Uint8Array(await response.arrayBuffer()),
+    mimeType: image.mimeType ?? response.headers.get("content-type") ?? "image/jpeg",
+  }
+}
+
+async function fitImage(
+  image: { data: Uint8Array, mimeType: string },
+  {
+    maxImageBytes,
+    resizeImage,
+    prompt,
+  }: {
+    maxImageBytes: number
+    resizeImage?: SparkImageResizer
+    prompt: LanguageModelV1Prompt
+  },
+): Promise<{ data: Uint8Array, mimeType: string }> {
+  if (image.data.byteLength <= maxImageBytes) {
+    return image
+  }
+
+  if (resizeImage == null) {
+    throw new InvalidPromptError({
+      prompt,
+      message: `The image is ${image.data.byteLength} bytes, but Spark accepts at most ${maxImageBytes} bytes. Downscale it or set \`resizeImage\` in the model settings.`,
+    })
+  }
+
+  const resized = await resizeImage(image, { maxBytes: maxImageBytes })
+  if (resized.data.byteLength > maxImageBytes) {
+    throw new InvalidPromptError({
+      prompt,
+      message: `The resized image is ${resized.data.byteLength} bytes, but Spark accepts at most ${maxImageBytes} bytes.`,
+    })
+  }
+  return { data: resized.data, mimeType: resized.mimeType ?? image.mimeType }
+}
@@ -0,0 +1,263 @@
+import type { SparkWebSocketLike } from "./spark-websocket"
+import { APICallError, UnsupportedFunctionalityError } from "@ai-sdk/provider"
+import { convertReadableStreamToArray } from "@ai-sdk/provider-utils/test"
+import { describe, expect, it } from "vitest"
+import {
+  convertToSparkWebSocketRequest,
+  getSparkWebSocketWarnings,
+  mapSparkWebSocketFrame,
+  postToSparkWebSocket,
+} from "./spark-websocket"
+
+/**
+ * Replays the given frames once the request frame is sent.
+ */
+function createFakeWebSocket(frames: unknown[]) {
+  const sent: unknown[] = []
+  let closed = false
+
+  class FakeWebSocket implements SparkWebSocketLike {
+    onopen: SparkWebSocketLike["onopen"] = null
+    onmessage: SparkWebSocketLike["onmessage"] = null
+    onerror: SparkWebSocketLike["onerror"] = null
+    onclose: SparkWebSocketLike["onclose"] = null
+
+    constructor(readonly url: string) {
+      setTimeout(() => this.onopen?.({}))
+    }
+
+    send(data: string) {
+      sent.push(JSON.parse(data))
+      setTimeout(() => {
+        for (const frame of frames) {
+          if (closed) {
+            return
+          }
+          this.onmessage?.({ data: JSON.stringify(frame) })
+        }
+      })
+    }
+
+    close() {
+      closed = true
+    }
+  }
+
+  return { FakeWebSocket, sent, isClosed: () => closed }
+}
+
+function textFrame(content: string, status: number) {
+  return {
+    header: { code: 0, sid: "sid-1", status },
+    payload: { choices: { status, text: [{ content, role: "assistant", index: 0 }] } },
+  }
+}
+
+describe("convertToSparkWebSocketRequest", () => {
+  it("moves function tools to the payload and built-in tools to the chat parameters", () => {
+    expect(convertToSparkWebSocketRequest({
+      appId: "app",
+      domain: "generalv3.5",
+      args: {
+        messages: [{ role: "user", content: "hi" }],
+        temperature: 0.5,
+        top_k: 4,
+        tools: [
+          { type: "function", function: { name: "weather", parameters: {} } },
+          { type: "web_search", web_search: { enable: true } } as { type: string },
+        ],
+      },
+    })).toStrictEqual({
+      header: { app_id: "app", uid: undefined },
+      parameter: {
+        chat: {
+          domain: "generalv3.5",
+          temperature: 0.5,
+          max_tokens: undefined,
+          top_k: 4,
+          tools: [{ type: "web_search", web_search: { enable: true } }],
+        },
+      },
+      payload: {
+        message: { text: [{ role: "user", content: "hi" }] },
+        functions: { text: [{ name: "weather", parameters: {} }] },
+      },
+    })
+  })
+
+  it("sends base64 images as separate entries before the text", () => {
+    const request = convertToSparkWebSocketRequest({
+      appId: "app",
+      domain: "imagev3",
+      args: {
+        messages: [{
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,AAEC" } },
+          ],
+        }],
+      },
+    })
+
+    expect(request.payload.message.text).toStrictEqual([
+      { role: "user", content: "AAEC", content_type: "image" },
+      { role: "user", content: "What is this?", content_type: "text" },
+    ])
+  })
+
+  it("keeps earlier tool calls and tool results of the history", () => {
+    const request = convertToSparkWebSocketRequest({
+      appId: "app",
+      domain: "generalv3.5",
+      args: {
+        messages: [
+          { role: "user", content: "Weather in Hefei?" },
+          {
+            role: "assistant",
+            content: "Checking.",
+            tool_calls: [{ id: "call-1", type: "function", function: { name: "weather", arguments: "{\"city\":\"Hefei\"}" } }],
+          },
+          { role: "tool", content: "{\"temperature\":20}", tool_call_id: "call-1" },
+        ],
+      },
+    })
+
+    expect(request.payload.message.text).toStrictEqual([
+      { role: "user", content: "Weather in Hefei?" },
+      { role: "assistant", content: "Checking." },
+      { role: "assistant", content: "", function_call: { name: "weather", arguments: "{\"city\":\"Hefei\"}" } },
+      { role: "tool", content: "{\"temperature\":20}" },
+    ])
+  })
+
+  it("rejects URL images", () => {
+    expect(() => convertToSparkWebSocketRequest({
+      appId: "app",
+      domain: "imagev3",
+      args: {
+        messages: [{
+          role: "user",
+          content: [{ type: "image_url", image_url: { url: "https://example.com/cat.png" } }],
+        }],
+      },
+    })).toThrow(UnsupportedFunctionalityError)
+  })
+})
+
+describe("getSparkWebSocketWarnings", () => {
+  it("reports the settings that are not sent", () => {
+    expect(getSparkWebSocketWarnings({
+      top_p: 0.5,
+      presence_penalty: 1,
+      stop: ["\n"],
+      response_format: { type: "json_object" },
+    }).map(warning => warning.type === "unsupported-setting" && warning.setting))
+      .toStrictEqual(["topP", "presencePenalty", "stopSequences", "responseFormat"])
+    expect(getSparkWebSocketWarnings({})).toStrictEqual([])
+  })
+})
+
+describe("mapSparkWebSocketFrame", () => {
+  it("maps text, reasoning and usage of the last frame", () => {
+    expect(mapSparkWebSocketFrame({
+      header: { code: 0, message: "Success", sid: "sid-1", status: 2 },
+      payload: {
+        choices: {
+          status: 2,
+          text: [{ content: "Hello", reasoning_content: "Thinking", role: "assistant", index: 0 }],
+        },
+        usage: { text: { question_tokens: 1, prompt_tokens: 2, completion_tokens: 3, total_tokens: 5 } },
+      },
+    })).toStrictEqual({
+      code: 0,
+      message: "Success",
+      sid: "sid-1",
+      id: "sid-1",
+      choices: [{
+        delta: {
+          role: "assistant",
+          content: "Hello",
+          reasoning_content: "Thinking",
+          plugins_content: undefined,
+          tool_calls: undefined,
+        },
+        finish_reason: "stop",
+      }],
+      usage: { prompt_tokens: 2, completion_tokens: 3, total_tokens: 5, question_tokens: 1 },
+    })
+  })
+
+  it("maps a function call to a tool call", () => {
+    const chunk = mapSparkWebSocketFrame({
+      header: { code: 0, sid: "sid-1", status: 2 },
+      payload: {
+        choices: {
+          text: [{ content: "", function_call: { name: "weather", arguments: "{\"city\":\"Hefei\"}" } }],
+        },
+      },
+    })
+
+    expect(chunk.choices[0].delta.tool_calls).toStrictEqual([
+      { index: 0, type: "function", function: { name: "weather", arguments: "{\"city\":\"Hefei\"}" } },
+    ])
+    expect(chunk.choices[0].finish_reason).toBe("tool_calls")
+  })
+
+  it("does not finish intermediate frames", () => {
+    expect(mapSparkWebSocketFrame(textFrame("Hel", 1)).choices[0].finish_reason).toBeNull()
+  })
+})
+
+describe("postToSparkWebSocket", () => {
+  it("streams the frames until the last one", async () => {
+    const { FakeWebSocket, sent, isClosed } = createFakeWebSocket([
+      textFrame("Hel", 0),
+      textFrame("lo", 2),
+      textFrame("ignored", 2),
+    ])
+
+    const stream = await postToSparkWebSocket({
+      url: "wss://spark-api.xf-yun.com/v3.5/chat",
+      body: { header: { app_id: "app" } },
+      webSocket: FakeWebSocket,
+    })
+    const frames = await convertReadableStreamToArray(stream)
+
+    expect(sent).toStrictEqual([{ header: { app_id: "app" } }])
+    expect(frames.map(frame => frame.success && frame.value.payload?.choices?.text[0].content))
+      .toStrictEqual(["Hel", "lo"])
+    expect(isClosed()).toBe(true)
+  })
+
+  it("rejects with an API call error when the first frame has an error code", async () => {
+    const { FakeWebSocket } = createFakeWebSocket([
+      { header: { code: 10013, message: "Content rejected", sid: "sid-1", status: 2 } },
+    ])
+
+    const result = postToSparkWebSocket({
+      url: "wss://spark-api.xf-yun.com/v3.5/chat?authorization=secret",
+      body: {},
+      webSocket: FakeWebSocket,
+    })
+
+    await expect(result).rejects.toBeInstanceOf(APICallError)
+    await expect(result).rejects.toThrow("Content rejected")
+    await expect(result).rejects.toMatchObject({
+      url: "wss://spark-api.xf-yun.com/v3.5/chat",
+    })
+  })
+
+  it("rejects when aborted before the first frame", async () => {
+    const { FakeWebSocket } = createFakeWebSocket([])
+    const controller = new AbortController()
+    controller.abort(new Error("stop"))
+
+    await expect(postToSparkWebSocket({
+      url: "wss://spark-api.xf-yun.com/v3.5/chat",
+      body: {},
+      webSocket: FakeWebSocket,
+      abortSignal: controller.signal,
+    })).rejects.toThrow("stop")
+  })
+})
@@ -0,0 +1,489 @@
+import type { LanguageModelV1CallWarning } from "@ai-sdk/provider"
+import type { ParseResult } from "@ai-sdk/provider-utils"
+import type { SparkChatPrompt } from "./spark-api-types"
+import type { SparkAppCredentials } from "./spark-auth"
+import type { SparkCredentials } from "./spark-credentials"
+import {
+  APICallError,
+  UnsupportedFunctionalityError,
+} from "@ai-sdk/provider"
+import { safeParseJSON } from "@ai-sdk/provider-utils"
+import { z } from "zod"
+import { createSparkAPICallError } from "./spark-error"
+import { sparkPluginsContentSchema } from "./spark-tools"
+
+/**
+ * Event handler of a WebSocket implementation. Declared through a method so
+ * that handlers typed with the implementation's own event classes are accepted.
+ */
+type SparkWebSocketEventHandler<EVENT> = { handle: (event: EVENT) => void }["handle"]
+
+/**
+ * Minimal WebSocket surface used by the Spark transport.
+ * Compatible with the WHATWG `WebSocket` global (edge runtime, Node 22+) and the `ws` package.
+ */
+export interface SparkWebSocketLike {
+  send: (data: string) => void
+  close: (code?: number, reason?: string) => void
+  onopen: SparkWebSocketEventHandler<unknown> | null
+  onmessage: SparkWebSocketEventHandler<{ data: unknown }> | null
+  onerror: SparkWebSocketEventHandler<unknown> | null
+  onclose: SparkWebSocketEventHandler<unknown> | null
+}
+
+/**
+ * Constructor for a WebSocket implementation.
+ */
+export type SparkWebSocketConstructor = new (url: string) => SparkWebSocketLike
+
+/**
+ * Configuration for talking to the classic `wss://spark-api.xf-yun.com` endpoints.
+ */
+export interface SparkWebSocketConfig {
+  /**
+   * Returns the unsigned `wss://` endpoint URL for a model.
+   */
+  url: (options: { modelId: string }) => string
+  /**
+   * Returns the `domain` parameter Spark expects for a model.
+   */
+  domain: (options: { modelId: string }) => string
+  /**
+   * Resolves the APPID, APIKey and APISecret for a model.
+   */
+  credentials: (options: {
+    modelId: string
+    credentials?: SparkCredentials
+  }) => PromiseLike<SparkAppCredentials>
+  /**
+   * WebSocket implementation. Defaults to `globalThis.WebSocket`.
+   */
+  webSocket?: SparkWebSocketConstructor
+}
+
+/**
+ * Converts OpenAI-style chat arguments into a Spark WebSocket request frame.
+ *
+ * @param options.appId - The Spark APPID.
+ * @param options.domain - The Spark `domain` for the model.
+ * @param options.args - The chat arguments produced by the chat model.
+ * @returns The `header/parameter/payload` request frame.
+ */
+export function convertToSparkWebSocketRequest({
+  appId,
+  domain,
+  args,
+}: {
+  appId: string
+  domain: string
+  args: {
+    messages: SparkChatPrompt
+    user?: string
+    max_tokens?: number
+    temperature?: number
+    top_k?: number
+    tools?: Array<{ type: string, function?: unknown }>
+  }
+}) {
+  const functions = args.tools
+    ?.filter(tool => tool.type === "function")
+    .map(tool => tool.function)
+  // Built-in tools such as web_search are chat parameters on the WebSocket API.
+  const builtInTools = args.tools?.filter(tool => tool.type !== "function")
+
+  return {
+    header: {
+      app_id: appId,
+      uid: args.user,
+    },
+    parameter: {
+      chat: {
+        domain,
+        temperature: args.temperature,
+        max_tokens: args.max_tokens,
+        top_k: args.top_k,
+        ...(builtInTools?.length ? { tools: builtInTools } : {}),
+      },
+    },
+    payload: {
+      message: {
+        text: args.messages.flatMap(convertToSparkWebSocketMessages),
+      },
+      ...(functions?.length ? { functions: { text: functions } } : {}),
+    },
+  }
+}
+
+/**
+ * Reports the chat arguments that the WebSocket API does not accept. They are
+ * not sent in the request frame.
+ *
+ * @param args - The chat arguments produced by the chat model.
+ * @returns An `unsupported-setting` warning per dropped setting.
+ */
+export function getSparkWebSocketWarnings(args: {
+  top_p?: number
+  presence_penalty?: number
+  stop?: string[]
+  response_format?: unknown
+}): LanguageModelV1CallWarning[] {
+  const dropped = [
+    ["topP", args.top_p],
+    ["presencePenalty", args.presence_penalty],
+    ["stopSequences", args.stop],
+    ["responseFormat", args.response_format],
+  ] as const
+
+  return dropped
+    .filter(([, value]) => value != null)
+    .map(([setting]) => ({
+      type: "unsupported-setting",
+      setting,
+      details: "This setting is not supported by the Spark WebSocket API.",
+    }))
+}
+
+interface SparkWebSocketMessage {
+  role: string
+  content: string
+  content_type?: "text" | "image"
+  function_call?: { name: string, arguments: string }
+}
+
+function convertToSparkWebSocketMessages(
+  message: SparkChatPrompt[number],
+): SparkWebSocketMessage[] {
+  const { role, content } = message
+  if (message.role === "assistant" && message.tool_calls?.length) {
+    // Earlier tool calls are sent back in the format the API answers with, one per entry.
+    return [
+      ...(message.content ? [{ role, content: message.content }] : []),
+      ...message.tool_calls.map(toolCall => ({
+        role,
+        content: "",
+        function_call: { name: toolCall.function.name, arguments: toolCall.function.arguments },
+      })),
+    ]
+  }
+  if (typeof content === "string" || content == null) {
+    return [{ role, content: content ?? "" }]
+  }
+
+  const text = content
+    .map(part => (part.type === "text" ? part.text : ""))
+    .join("")
+  const images = content.flatMap(part =>
+    part.type === "image_url" ? [getBase64Data(part.image_url.url)] : [],
+  )
+  if (images.length === 0) {
+    // The chat endpoints only accept plain text content.
+    return [{ role, content: text }]
+  }
+
+  // Image understanding expects each image as its own base64 entry before the text.
+  return [
+    ...images.map(image => ({ role, content: image, content_type: "image" as const })),
+    ...(text.length > 0 ? [{ role, content: text, content_type: "text" as const }] : []),
+  ]
+}
+
+function getBase64Data(url: string) {
+  const match = /^data:[^;,]*;base64,(.*)$/s.exec(url)
+  if (match == null) {
+    throw new UnsupportedFunctionalityError({
+      functionality: "URL images in Spark WebSocket requests",
+      message: "Spark WebSocket requests only accept base64 images. Download URL images before sending them.",
+    })
+  }
+  return match[1]
+}
+
+// limited version of the schema, focussed on what is needed for the implementation
+// this approach limits breakages when the API changes and increases efficiency
+export const sparkWebSocketFrameSchema = z.object({
+  header: z.object({
+    code: z.number(),
+    message: z.string().nullish(),
+    sid: z.string().nullish(),
+    status: z.number().nullish(),
+  }),
+  payload: z
+    .object({
+      choices: z
+        .object({
+          status: z.number().nullish(),
+          seq: z.number().nullish(),
+          text: z.array(
+            z.object({
+              content: z.string().nullish(),
+              reasoning_content: z.string().nullish(),
+              role: z.string().nullish(),
+              index: z.number().nullish(),
+              function_call: z
+                .object({
+                  name: z.string(),
+                  arguments: z.string(),
+                })
+                .nullish(),
+            }),
+          ),
+        })
+        .nullish(),
+      plugins: z
+        .object({
+          text: sparkPluginsContentSchema,
+        })
+        .nullish(),
+      usage: z
+        .object({
+          text: z.object({
+            question_tokens: z.number().nullish(),
+            prompt_tokens: z.number().nullish(),
+            completion_tokens: z.number().nullish(),
+            total_tokens: z.number().nullish(),
+          }),
+        })
+        .nullish(),
+    })
+    .nullish(),
+})
+
+export type SparkWebSocketFrame = z.infer<typeof sparkWebSocketFrameSchema>
+
+/**
+ * Maps a Spark WebSocket frame to the OpenAI-style chunk shape used by the HTTP stream.
+ *
+ * @param frame - The parsed WebSocket frame.
+ * @returns A chat completion chunk.
+ */
+export function mapSparkWebSocketFrame(frame: SparkWebSocketFrame) {
+  const texts = frame.payload?.choices?.text ?? []
+  const usage = frame.payload?.usage?.text
+  const isLast = frame.header.status === 2
+  const functionCall = texts.find(text => text.function_call != null)?.function_call
+
+  return {
+    code: frame.header.code,
+    message: frame.header.message,
+    sid: frame.header.sid,
+    id: frame.header.sid,
+    choices: [
+      {
+        delta: {
+          role: "assistant" as const,
+          content: joinNullable(texts.map(text => text.content)),
+          reasoning_content: joinNullable(texts.map(text => text.reasoning_content)),
+          plugins_content: frame.payload?.plugins?.text,
+          tool_calls: functionCall != null
+            ? [{ index: 0, type: "function" as const, function: functionCall }]
+            : undefined,
+        },
+        finish_reason: isLast ? (functionCall != null ? "tool_calls" : "stop") : null,
+      },
+    ],
+    usage: usage != null
+      ? {
+          prompt_tokens: usage.prompt_tokens,
+          completion_tokens: usage.completion_tokens,
+          total_tokens: usage.total_tokens,
+          question_tokens: usage.question_tokens,
+        }
+      : undefined,
+  }
+}
+
+function joinNullable(values: Array<string | null | undefined>) {
+  const present = values.filter((value): value is string => value != null)
+  return present.length > 0 ? present.join("") : undefined
+}
+
+/**
+ * Chat completion chunk produced from a Spark WebSocket frame.
+ */
+export type SparkWebSocketChunk = ReturnType<typeof mapSparkWebSocketFrame>
+
+/**
+ * Opens a Spark chat WebSocket connection, sends the request frame and exposes
+ * the response frames as a stream.
+ *
+ * @param options.url - The signed `wss://` URL.
+ * @param options.body - The request frame.
+ * @param options.abortSignal - Optional signal to cancel the request.
+ * @param options.webSocket - WebSocket implementation to use.
+ * @returns A stream of parsed response frames.
+ */
+export function postToSparkWebSocket(options: {
+  url: string
+  body: unknown
+  abortSignal?: AbortSignal
+  webSocket?: SparkWebSocketConstructor
+}): Promise<ReadableStream<ParseResult<SparkWebSocketFrame>>> {
+  return openSparkWebSocket({
+    ...options,
+    frameSchema: sparkWebSocketFrameSchema,
+    getFrameHeader: frame => frame.header,
+  })
+}
+
+/**
+ * Opens a WebSocket connection, sends the request frame and exposes
+ * the response frames as a stream.
+ *
+ * The returned promise resolves once the first frame arrives. If that frame
+ * carries a non-zero `code`, the promise rejects with an `APICallError`;
+ * error frames after the first one error the stream. The stream ends with the
+ * frame whose `status` is 2.
+ *
+ * @param options.url - The signed `wss://` URL.
+ * @param options.body - The request frame.
+ * @param options.abortSignal - Optional signal to cancel the request.
+ * @param options.webSocket - WebSocket implementation to use.
+ * @param options.frameSchema - Schema of the response frames.
+ * @param options.getFrameHeader - Extracts the status fields of a frame.
+ * @returns A stream of parsed response frames.
+ */
+export function openSparkWebSocket<FRAME>({
+  url,
+  body,
+  abortSignal,
+  webSocket = (globalThis as { WebSocket?: SparkWebSocketConstructor }).WebSocket,
+  frameSchema,
+  getFrameHeader,
+}: {
+  url: string
+  body: unknown
+  abortSignal?: AbortSignal
+  webSocket?: SparkWebSocketConstructor
+  frameSchema: z.ZodType<FRAME, z.ZodTypeDef, any>
+  getFrameHeader: (frame: FRAME) => {
+    code: number
+    message?: string | null
+    sid?: string | null
+    status?: number | null
+  }
+}): Promise<ReadableStream<ParseResult<FRAME>>> {
+  if (webSocket == null) {
+    return Promise.reject(
+      new Error(
+        "No WebSocket implementation found. Pass one via the `webSocket` provider setting.",
+      ),
+    )
+  }
+
+  // Strip the signature from URLs surfaced in errors.
+  const errorUrl = url.split("?")[0]
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+    let closed = false
+    let controller!: ReadableStreamDefaultController<ParseResult<FRAME>>
+
+    const socket = new webSocket(url)
+
+    const stream = new ReadableStream<ParseResult<FRAME>>({
+      start(c) {
+        controller = c
+      },
+      cancel() {
+        cleanup()
+        socket.close()
+      },
+    })
+
+    const fail = (error: unknown) => {
+      if (closed)
+        return
+      closed = true
+      cleanup()
+      socket.close()
+      if (!settled) {
+        settled = true
+        reject(error)
+      }
+      else {
+        controller.error(error)
+      }
+    }
+
+    const onAbort = () => fail(abortSignal?.reason ?? new Error("Aborted"))
+    const cleanup = () => abortSignal?.removeEventListener("abort", onAbort)
+
+    if (abortSignal?.aborted) {
+      onAbort()
+      return
+    }
+    abortSignal?.addEventListener("abort", onAbort)
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify(body))
+    }
+
+    socket.onmessage = (event) => {
+      if (closed)
+        return
+      const text = decodeWebSocketData(event.data)
+      const frame = safeParseJSON({ text, schema: frameSchema })
+      const header = frame.success ? getFrameHeader(frame.value) : undefined
+
+      const sparkError = header != null
+        ? createSparkAPICallError({
+          data: {
+            ...header,
+            message: header.message ?? `Spark error ${header.code}`,
+          },
+          url: errorUrl,
+          requestBodyValues: body,
+          responseBody: text,
+        })
+        : undefined
+      if (sparkError != null) {
+        fail(sparkError)
+        return
+      }
+
+      if (!settled) {
+        settled = true
+        resolve(stream)
+      }
+      controller.enqueue(frame)
+
+      if (header?.status === 2) {
+        closed = true
+        cleanup()
+        controller.close()
+        socket.close()
+      }
+    }
+
+    socket.onerror = () => {
+      fail(new APICallError({
+        message: "Spark WebSocket connection failed",
+        url: errorUrl,
+        requestBodyValues: body,
+        isRetryable: true,
+      }))
+    }
+
+    socket.onclose = () => {
+      fail(new APICallError({
+        message: "Spark WebSocket connection closed before the response completed",
+        url: errorUrl,
+        requestBodyValues: body,
+        isRetryable: true,
+      }))
+    }
+  })
+}
+
+/**
+ * Decodes a text frame, or a binary frame as UTF-8.
+ */
+function decodeWebSocketData(data: unknown): string {
+  if (typeof data === "string") {
+    return data
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return new TextDecoder().decode(data)
+  }
+  return String(data)
+}